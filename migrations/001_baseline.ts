@@ -0,0 +1,173 @@
+import type Database from "better-sqlite3";
+
+// Schema as it stood when migrations were introduced. Databases created before then already have
+// some or all of it, so every statement is idempotent and late columns are added only if missing.
+
+const ADDED_COLUMNS: [table: string, column: string, definition: string][] = [
+  ["tasks", "completed_at", "DATETIME"],
+  ["tasks", "position", "INTEGER DEFAULT 0"],
+  ["tasks", "auto_complete", "INTEGER DEFAULT 0"],
+  ["tasks", "recurrence", "TEXT"],
+  ["tasks", "next_occurrence_id", "INTEGER"],
+  ["lectures", "start_time", "TEXT"],
+  ["lectures", "end_time", "TEXT"],
+  ["lectures", "room", "TEXT"],
+  ["lectures", "lecturer", "TEXT"],
+  ["lectures", "slot_id", "INTEGER"],
+  ["lectures", "ical_uid", "TEXT"],
+];
+
+const SEARCH_SOURCES = [
+  { kind: "task", table: "tasks", title: "title", body: "description" },
+  { kind: "lecture", table: "lectures", title: "subject", body: "topic" },
+  { kind: "project", table: "projects", title: "name", body: "description" },
+  { kind: "internship", table: "internship_logs", title: "title", body: "description" },
+];
+
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tasks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority TEXT DEFAULT 'medium',
+      status TEXT DEFAULT 'todo',
+      due_date TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS subtasks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      completed INTEGER DEFAULT 0,
+      position INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS lectures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      subject TEXT NOT NULL,
+      topic TEXT,
+      attendance_status TEXT,
+      date TEXT,
+      completed INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS internship_logs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      title TEXT NOT NULL,
+      description TEXT,
+      date TEXT,
+      hours REAL
+    );
+
+    CREATE TABLE IF NOT EXISTS projects (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      description TEXT,
+      progress INTEGER DEFAULT 0,
+      status TEXT DEFAULT 'active'
+    );
+
+    CREATE TABLE IF NOT EXISTS project_milestones (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      due_date TEXT,
+      completed INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS focus_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      duration INTEGER,
+      type TEXT,
+      date DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS terms (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      start_date TEXT NOT NULL,
+      end_date TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS timetable_slots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      term_id INTEGER NOT NULL REFERENCES terms(id) ON DELETE CASCADE,
+      subject TEXT NOT NULL,
+      day_of_week INTEGER NOT NULL,
+      start_time TEXT NOT NULL,
+      end_time TEXT NOT NULL,
+      room TEXT,
+      lecturer TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS syllabus_units (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      subject TEXT NOT NULL,
+      title TEXT NOT NULL,
+      position INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS syllabus_topics (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      unit_id INTEGER NOT NULL REFERENCES syllabus_units(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      position INTEGER DEFAULT 0,
+      covered_at DATETIME,
+      revised_at DATETIME
+    );
+
+    CREATE TABLE IF NOT EXISTS lecture_topics (
+      lecture_id INTEGER NOT NULL REFERENCES lectures(id) ON DELETE CASCADE,
+      topic_id INTEGER NOT NULL REFERENCES syllabus_topics(id) ON DELETE CASCADE,
+      PRIMARY KEY (lecture_id, topic_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      type TEXT NOT NULL,
+      title TEXT NOT NULL,
+      body TEXT,
+      ref_kind TEXT,
+      ref_id INTEGER,
+      dedupe_key TEXT UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      read_at DATETIME,
+      dismissed_at DATETIME
+    );
+
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT
+    );
+  `);
+
+  for (const [table, column, definition] of ADDED_COLUMNS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(c => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+
+  db.exec(`
+    -- One generated lecture per timetable slot per day
+    CREATE UNIQUE INDEX IF NOT EXISTS lectures_slot_date ON lectures (slot_id, date);
+    -- Lectures imported from .ics files keep their calendar UID so re-imports update in place
+    CREATE UNIQUE INDEX IF NOT EXISTS lectures_ical_uid ON lectures (ical_uid);
+
+    INSERT OR IGNORE INTO settings (key, value) VALUES ('internship_target_hours', '240');
+    INSERT OR IGNORE INTO settings (key, value) VALUES ('attendance_threshold', '75');
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(kind UNINDEXED, ref_id UNINDEXED, title, body, tokenize = 'porter unicode61');
+  `);
+
+  for (const { kind, table, title, body } of SEARCH_SOURCES) {
+    const insert = `INSERT INTO search_index (kind, ref_id, title, body) VALUES ('${kind}', new.id, new.${title}, COALESCE(new.${body}, ''));`;
+    const remove = `DELETE FROM search_index WHERE kind = '${kind}' AND ref_id = old.id;`;
+    db.exec(`
+      CREATE TRIGGER IF NOT EXISTS ${table}_search_insert AFTER INSERT ON ${table} BEGIN ${insert} END;
+      CREATE TRIGGER IF NOT EXISTS ${table}_search_update AFTER UPDATE ON ${table} BEGIN ${remove} ${insert} END;
+      CREATE TRIGGER IF NOT EXISTS ${table}_search_delete AFTER DELETE ON ${table} BEGIN ${remove} END;
+    `);
+  }
+}
@@ -0,0 +1,57 @@
+import type Database from "better-sqlite3";
+
+// User accounts and sessions. Every table holding someone's data gets a user_id owner column;
+// rows that existed before accounts are left unowned (NULL) until the first account claims them.
+// lecture_topics is only a link table, so its ownership follows the lecture and topic it joins.
+
+const OWNED_TABLES = [
+  "tasks", "subtasks", "lectures", "internship_logs", "projects", "project_milestones", "focus_sessions",
+  "terms", "timetable_slots", "syllabus_units", "syllabus_topics", "notifications",
+];
+
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE users (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      name TEXT NOT NULL,
+      role TEXT,
+      password_hash TEXT NOT NULL,
+      calendar_token TEXT UNIQUE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE sessions (
+      token_hash TEXT PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL
+    );
+  `);
+
+  for (const table of OWNED_TABLES) {
+    db.exec(`
+      ALTER TABLE ${table} ADD COLUMN user_id INTEGER REFERENCES users(id);
+      CREATE INDEX ${table}_user ON ${table} (user_id);
+    `);
+  }
+
+  // Settings were keyed globally; they become per-user
+  db.exec(`
+    CREATE TABLE settings_by_user (
+      user_id INTEGER REFERENCES users(id),
+      key TEXT NOT NULL,
+      value TEXT,
+      PRIMARY KEY (user_id, key)
+    );
+    INSERT INTO settings_by_user (user_id, key, value) SELECT NULL, key, value FROM settings;
+    DROP TABLE settings;
+    ALTER TABLE settings_by_user RENAME TO settings;
+  `);
+
+  // Two students may import the same college calendar
+  db.exec(`
+    DROP INDEX lectures_ical_uid;
+    CREATE UNIQUE INDEX lectures_ical_uid ON lectures (user_id, ical_uid);
+  `);
+}
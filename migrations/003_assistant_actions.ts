@@ -0,0 +1,18 @@
+import type Database from "better-sqlite3";
+
+// Changes the AI assistant proposed that only run once the user confirms them
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE assistant_actions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      tool TEXT NOT NULL,
+      args TEXT NOT NULL,
+      summary TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      error TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      resolved_at DATETIME
+    );
+  `);
+}
@@ -0,0 +1,26 @@
+import type Database from "better-sqlite3";
+
+// Saved AI assistant threads. shared and actions hold the JSON the chat route sent alongside a reply.
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE assistant_conversations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX assistant_conversations_user ON assistant_conversations (user_id, updated_at);
+
+    CREATE TABLE assistant_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      conversation_id INTEGER NOT NULL REFERENCES assistant_conversations(id) ON DELETE CASCADE,
+      role TEXT NOT NULL,
+      text TEXT NOT NULL,
+      shared TEXT,
+      actions TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX assistant_messages_conversation ON assistant_messages (conversation_id, id);
+  `);
+}
@@ -0,0 +1,19 @@
+import type Database from "better-sqlite3";
+
+// Accepted day plans: one row per time block, optionally tied to the task it was planned for
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE plan_blocks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      date TEXT NOT NULL,
+      start_time TEXT NOT NULL,
+      end_time TEXT NOT NULL,
+      task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+      title TEXT NOT NULL,
+      done INTEGER NOT NULL DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX plan_blocks_user_date ON plan_blocks (user_id, date, start_time);
+  `);
+}
@@ -0,0 +1,14 @@
+import type Database from "better-sqlite3";
+
+// Focus sessions can record what they were spent on: a task or a project. Manual entries are time
+// the user logged by hand rather than with the timer.
+export default function up(db: Database.Database) {
+  db.exec(`
+    ALTER TABLE focus_sessions ADD COLUMN task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL;
+    ALTER TABLE focus_sessions ADD COLUMN project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL;
+    ALTER TABLE focus_sessions ADD COLUMN note TEXT;
+    ALTER TABLE focus_sessions ADD COLUMN manual INTEGER NOT NULL DEFAULT 0;
+    CREATE INDEX focus_sessions_task ON focus_sessions (task_id);
+    CREATE INDEX focus_sessions_project ON focus_sessions (project_id);
+  `);
+}
@@ -0,0 +1,25 @@
+import type Database from "better-sqlite3";
+
+// The Pomodoro timer, kept on the server so it survives reloads and is shared between tabs. One row
+// per user holds the current phase; while a session is in progress it also holds when the session
+// started and how long it has been paused, in milliseconds since the epoch. The completed_* columns
+// describe the last session that ended, so every open tab can announce it.
+export default function up(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE focus_timers (
+      user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+      phase TEXT NOT NULL DEFAULT 'work',
+      completed_work INTEGER NOT NULL DEFAULT 0,
+      duration_ms INTEGER,
+      started_at INTEGER,
+      paused_at INTEGER,
+      paused_ms INTEGER NOT NULL DEFAULT 0,
+      task_id INTEGER REFERENCES tasks(id) ON DELETE SET NULL,
+      project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+      plan_block_id INTEGER REFERENCES plan_blocks(id) ON DELETE SET NULL,
+      completed_phase TEXT,
+      completed_minutes INTEGER,
+      completed_at INTEGER
+    );
+  `);
+}
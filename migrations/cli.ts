@@ -0,0 +1,21 @@
+import Database from "better-sqlite3";
+import { migrate, migrationStatus } from "./index";
+
+// Usage: tsx migrations/cli.ts [status|up] [database file, default productivity.db]
+const [command = "status", file = "productivity.db"] = process.argv.slice(2);
+const db = new Database(file);
+
+if (command === "up") {
+  const applied = migrate(db);
+  if (applied.length === 0) console.log("Database is up to date.");
+  applied.forEach(migration => console.log(`Applied ${String(migration.id).padStart(3, "0")}_${migration.name}`));
+} else if (command === "status") {
+  for (const row of migrationStatus(db)) {
+    const state = row.unknown ? "unknown" : row.applied_at ? `applied ${row.applied_at}` : "pending";
+    console.log(`${String(row.id).padStart(3, "0")}_${row.name.padEnd(24)} ${state}`);
+  }
+} else {
+  console.error(`Unknown command "${command}". Use "status" or "up".`);
+  process.exitCode = 1;
+}
+db.close();
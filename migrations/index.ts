@@ -0,0 +1,81 @@
+import type Database from "better-sqlite3";
+import baseline from "./001_baseline";
+import accounts from "./002_accounts";
+import assistantActions from "./003_assistant_actions";
+import assistantConversations from "./004_assistant_conversations";
+import planBlocks from "./005_plan_blocks";
+import focusLinks from "./006_focus_links";
+import focusTimers from "./007_focus_timers";
+
+export interface Migration {
+  id: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// Append new migrations here with the next id; never edit or reorder ones that have shipped
+export const MIGRATIONS: Migration[] = [
+  { id: 1, name: "baseline", up: baseline },
+  { id: 2, name: "accounts", up: accounts },
+  { id: 3, name: "assistant_actions", up: assistantActions },
+  { id: 4, name: "assistant_conversations", up: assistantConversations },
+  { id: 5, name: "plan_blocks", up: planBlocks },
+  { id: 6, name: "focus_links", up: focusLinks },
+  { id: 7, name: "focus_timers", up: focusTimers },
+];
+
+export interface MigrationStatus {
+  id: number;
+  name: string;
+  applied_at: string | null;
+  // Recorded in the database but unknown to this version of the app
+  unknown?: boolean;
+}
+
+const appliedMigrations = (db: Database.Database) => {
+  const table = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+  if (!table) return [];
+  return db.prepare("SELECT id, name, applied_at FROM schema_migrations ORDER BY id").all() as MigrationStatus[];
+};
+
+export function migrationStatus(db: Database.Database, migrations = MIGRATIONS): MigrationStatus[] {
+  const applied = appliedMigrations(db);
+  const known = migrations.map(({ id, name }) => ({
+    id, name, applied_at: applied.find(row => row.id === id)?.applied_at ?? null,
+  }));
+  const unknown = applied.filter(row => !migrations.some(m => m.id === row.id)).map(row => ({ ...row, unknown: true }));
+  return [...known, ...unknown].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Applies every pending migration in id order, each in its own transaction together with its
+ * schema_migrations row, so a failure leaves the database at the last fully applied version.
+ * Returns the migrations that were applied.
+ */
+export function migrate(db: Database.Database, migrations = MIGRATIONS): Migration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const status = migrationStatus(db, migrations);
+  const unknown = status.find(row => row.unknown);
+  if (unknown) {
+    throw new Error(`Database has migration ${unknown.id} (${unknown.name}) that this version doesn't know about; update the app first`);
+  }
+
+  const pending = migrations
+    .filter(migration => !status.find(row => row.id === migration.id)?.applied_at)
+    .sort((a, b) => a.id - b.id);
+  const record = db.prepare("INSERT INTO schema_migrations (id, name) VALUES (?, ?)");
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.id, migration.name);
+    })();
+  }
+  return pending;
+}
@@ -2,143 +2,2716 @@ import express from "express";
 import { createServer as createViteServer } from "vite";
 import Database from "better-sqlite3";
 import path from "path";
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Type, type Content, type FunctionDeclaration, type Part, type Schema } from "@google/genai";
 import dotenv from "dotenv";
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, differenceInCalendarMonths, differenceInCalendarWeeks, differenceInMinutes, format, isValid, max as maxDate, min as minDate, parseISO, startOfMonth, startOfWeek, subDays } from "date-fns";
+import { nextOccurrence, parseRRule } from "./src/lib/recurrence";
+import { isDueSoon, isOverdue } from "./src/lib/dueDates";
+import { buildCalendar, escapeText, icalDate, icalDateTime, parseCalendar, type ICalComponent } from "./src/lib/ical";
+import {
+  PHASE_LABELS, nextPhase, phaseMinutes, pomodoroConfig, sessionElapsedMs, sessionRemainingMs, sessionType,
+  type PomodoroPhase,
+} from "./src/lib/pomodoro";
+import { migrate } from "./migrations";
 
 dotenv.config();
 
 const db = new Database("productivity.db");
 
-// Initialize Database Schema
-db.exec(`
-  CREATE TABLE IF NOT EXISTS tasks (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    title TEXT NOT NULL,
-    description TEXT,
-    priority TEXT DEFAULT 'medium',
-    status TEXT DEFAULT 'todo',
-    due_date TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  );
+// Schema changes live in migrations/; pending ones are applied before anything touches the tables
+migrate(db).forEach(migration => console.log(`Applied migration ${migration.id} (${migration.name})`));
 
-  CREATE TABLE IF NOT EXISTS lectures (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    subject TEXT NOT NULL,
-    topic TEXT,
-    attendance_status TEXT,
-    date TEXT,
-    completed INTEGER DEFAULT 0
-  );
+// Full-text search index (created with its sync triggers in the baseline migration)
+const SEARCH_SOURCES = [
+  { kind: "task", table: "tasks", title: (row: string) => `${row}.title`, body: (row: string) => `COALESCE(${row}.description, '')` },
+  { kind: "lecture", table: "lectures", title: (row: string) => `${row}.subject`, body: (row: string) => `COALESCE(${row}.topic, '')` },
+  { kind: "project", table: "projects", title: (row: string) => `${row}.name`, body: (row: string) => `COALESCE(${row}.description, '')` },
+  { kind: "internship", table: "internship_logs", title: (row: string) => `${row}.title`, body: (row: string) => `COALESCE(${row}.description, '')` },
+];
 
-  CREATE TABLE IF NOT EXISTS internship_logs (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    title TEXT NOT NULL,
-    description TEXT,
-    date TEXT,
-    hours REAL
-  );
+// Rebuild on startup so rows written before the index (or its triggers) existed are searchable
+db.transaction(() => {
+  db.exec("DELETE FROM search_index");
+  for (const { kind, table, title, body } of SEARCH_SOURCES) {
+    db.exec(`INSERT INTO search_index (kind, ref_id, title, body) SELECT '${kind}', t.id, ${title("t")}, ${body("t")} FROM ${table} t`);
+  }
+})();
 
-  CREATE TABLE IF NOT EXISTS projects (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    name TEXT NOT NULL,
-    description TEXT,
-    progress INTEGER DEFAULT 0,
-    status TEXT DEFAULT 'active'
-  );
+// The index is shared by every account; this keeps hits to rows owned by @user_id
+const SEARCH_OWNER_FILTER = `CASE kind ${SEARCH_SOURCES.map(({ kind, table }) =>
+  `WHEN '${kind}' THEN ref_id IN (SELECT id FROM ${table} WHERE user_id = @user_id)`
+).join(" ")} END`;
+
+// Turns free text into an FTS5 query that prefix-matches every word, e.g. `dbms norm` -> `"dbms"* "norm"*`
+const toFtsQuery = (text: string) =>
+  text
+    .split(/\s+/)
+    .map(word => word.replace(/"/g, ""))
+    .filter(Boolean)
+    .map(word => `"${word}"*`)
+    .join(" ");
+
+type Granularity = "day" | "week" | "month";
+
+// SQLite expression that maps a date column onto the start of its bucket (weeks start on Monday)
+const bucketExpr = (column: string, granularity: Granularity) => {
+  if (granularity === "week") return `date(${column}, 'weekday 0', '-6 days')`;
+  if (granularity === "month") return `strftime('%Y-%m-01', ${column})`;
+  return `date(${column})`;
+};
+
+const bucketStart = (date: Date, granularity: Granularity) => {
+  if (granularity === "week") return startOfWeek(date, { weekStartsOn: 1 });
+  if (granularity === "month") return startOfMonth(date);
+  return date;
+};
+
+const nextBucket = (date: Date, granularity: Granularity) => {
+  if (granularity === "week") return addWeeks(date, 1);
+  if (granularity === "month") return addMonths(date, 1);
+  return addDays(date, 1);
+};
+
+// Longest series /api/analytics will build: over a year of days, or decades of weeks or months
+const MAX_ANALYTICS_BUCKETS = 400;
+
+const bucketCount = (from: Date, to: Date, granularity: Granularity) => {
+  if (granularity === "week") return differenceInCalendarWeeks(to, from, { weekStartsOn: 1 }) + 1;
+  if (granularity === "month") return differenceInCalendarMonths(to, from) + 1;
+  return differenceInCalendarDays(to, from) + 1;
+};
+
+// Per-bucket focus minutes, completed tasks, attendance rate and internship hours between two dates (inclusive)
+const buildAnalytics = (userId: number, from: Date, to: Date, granularity: Granularity) => {
+  const fromDay = format(from, "yyyy-MM-dd");
+  const toDay = format(to, "yyyy-MM-dd");
+
+  const focus = db.prepare(`
+    SELECT ${bucketExpr("date", granularity)} as bucket, SUM(duration) as minutes
+    FROM focus_sessions
+    WHERE user_id = ? AND type = 'work' AND date(date) BETWEEN ? AND ?
+    GROUP BY bucket
+  `).all(userId, fromDay, toDay) as { bucket: string, minutes: number }[];
+
+  const completed = db.prepare(`
+    SELECT ${bucketExpr("COALESCE(completed_at, created_at)", granularity)} as bucket, COUNT(*) as count
+    FROM tasks
+    WHERE user_id = ? AND status = 'done' AND date(COALESCE(completed_at, created_at)) BETWEEN ? AND ?
+    GROUP BY bucket
+  `).all(userId, fromDay, toDay) as { bucket: string, count: number }[];
+
+  const attendance = db.prepare(`
+    SELECT ${bucketExpr("date", granularity)} as bucket,
+      SUM(attendance_status = 'present') as present,
+      SUM(attendance_status IN ('present', 'absent')) as marked
+    FROM lectures
+    WHERE user_id = ? AND date BETWEEN ? AND ?
+    GROUP BY bucket
+  `).all(userId, fromDay, toDay) as { bucket: string, present: number, marked: number }[];
+
+  const internship = db.prepare(`
+    SELECT ${bucketExpr("date", granularity)} as bucket, SUM(hours) as hours
+    FROM internship_logs
+    WHERE user_id = ? AND date BETWEEN ? AND ?
+    GROUP BY bucket
+  `).all(userId, fromDay, toDay) as { bucket: string, hours: number }[];
+
+  const byBucket = <T extends { bucket: string }>(rows: T[]) => new Map(rows.map(r => [r.bucket, r]));
+  const focusMap = byBucket(focus);
+  const completedMap = byBucket(completed);
+  const attendanceMap = byBucket(attendance);
+  const internshipMap = byBucket(internship);
+
+  const series = [];
+  for (let cursor = bucketStart(from, granularity); cursor <= to; cursor = nextBucket(cursor, granularity)) {
+    const bucket = format(cursor, "yyyy-MM-dd");
+    const att = attendanceMap.get(bucket);
+    series.push({
+      bucket,
+      focusMinutes: focusMap.get(bucket)?.minutes || 0,
+      tasksCompleted: completedMap.get(bucket)?.count || 0,
+      attendanceRate: att && att.marked > 0 ? Math.round((att.present / att.marked) * 100) : null,
+      internshipHours: internshipMap.get(bucket)?.hours || 0,
+    });
+  }
+
+  const present = attendance.reduce((sum, r) => sum + r.present, 0);
+  const marked = attendance.reduce((sum, r) => sum + r.marked, 0);
+  const totals = {
+    focusMinutes: series.reduce((sum, b) => sum + b.focusMinutes, 0),
+    tasksCompleted: series.reduce((sum, b) => sum + b.tasksCompleted, 0),
+    attendanceRate: marked > 0 ? Math.round((present / marked) * 100) : null,
+    internshipHours: series.reduce((sum, b) => sum + b.internshipHours, 0),
+  };
+
+  return { series, totals };
+};
+
+// Week-over-week change in percent; null when there is no previous value to compare against
+const percentChange = (current: number | null, previous: number | null) => {
+  if (current == null || !previous) return null;
+  return Math.round(((current - previous) / previous) * 100);
+};
+
+const TASK_PRIORITIES = ["low", "medium", "high"];
+const TASK_STATUSES = ["todo", "in-progress", "done"];
+
+// Validates the editable task fields present in a request body; absent fields are left out
+const pickTaskFields = (body: any): Record<string, string | number | null> | { error: string } => {
+  const changes: Record<string, string | number | null> = {};
+  if (body.title !== undefined) {
+    if (!String(body.title).trim()) return { error: "Title cannot be empty" };
+    changes.title = String(body.title).trim();
+  }
+  if (body.description !== undefined) changes.description = body.description ?? "";
+  if (body.priority !== undefined) {
+    if (!TASK_PRIORITIES.includes(body.priority)) return { error: `priority must be one of ${TASK_PRIORITIES.join(", ")}` };
+    changes.priority = body.priority;
+  }
+  if (body.status !== undefined) {
+    if (!TASK_STATUSES.includes(body.status)) return { error: `status must be one of ${TASK_STATUSES.join(", ")}` };
+    changes.status = body.status;
+  }
+  if (body.due_date !== undefined) changes.due_date = body.due_date || null;
+  if (body.auto_complete !== undefined) changes.auto_complete = body.auto_complete ? 1 : 0;
+  if (body.recurrence !== undefined) {
+    if (body.recurrence && !parseRRule(body.recurrence)) return { error: "recurrence is not a supported repeat rule" };
+    changes.recurrence = body.recurrence || null;
+  }
+  return changes;
+};
+
+// When a recurring task is completed, creates its next occurrence (once) with a fresh checklist
+const spawnNextOccurrence = (id: number | string) => {
+  const task = db.prepare("SELECT * FROM tasks WHERE id = ?").get(id) as any;
+  if (!task || task.status !== "done" || task.next_occurrence_id) return;
+  const rule = parseRRule(task.recurrence);
+  if (!rule) return;
+  const dueDate = nextOccurrence(rule, task.due_date || format(new Date(), "yyyy-MM-dd"));
+  if (!dueDate) return;
+
+  db.transaction(() => {
+    const info = db.prepare(`
+      INSERT INTO tasks (user_id, title, description, priority, status, due_date, auto_complete, recurrence, position)
+      VALUES (?, ?, ?, ?, 'todo', ?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM tasks WHERE status = 'todo' AND user_id = ?))
+    `).run(task.user_id, task.title, task.description, task.priority, dueDate, task.auto_complete, task.recurrence, task.user_id);
+    db.prepare(`
+      INSERT INTO subtasks (user_id, task_id, title, position)
+      SELECT user_id, ?, title, position FROM subtasks WHERE task_id = ?
+    `).run(info.lastInsertRowid, id);
+    db.prepare("UPDATE tasks SET next_occurrence_id = ? WHERE id = ?").run(info.lastInsertRowid, id);
+  })();
+};
+
+// Attaches each task's checklist items, in order
+const withSubtasks = (userId: number, tasks: any[]) => {
+  const subtasks = db.prepare("SELECT * FROM subtasks WHERE user_id = ? ORDER BY position, id").all(userId) as any[];
+  return tasks.map(t => ({ ...t, subtasks: subtasks.filter(st => st.task_id === t.id) }));
+};
+
+// Minutes of work sessions logged against each task or project
+const trackedMinutes = (column: "task_id" | "project_id", table: "tasks" | "projects") =>
+  `(SELECT COALESCE(SUM(duration), 0) FROM focus_sessions WHERE ${column} = ${table}.id AND type = 'work') AS tracked_minutes`;
+
+const getTask = (id: number | string, userId: number) => {
+  const task = db.prepare(`SELECT *, ${trackedMinutes("task_id", "tasks")} FROM tasks WHERE id = ? AND user_id = ?`).get(id, userId) as any;
+  if (!task) return null;
+  return { ...task, subtasks: db.prepare("SELECT * FROM subtasks WHERE task_id = ? ORDER BY position, id").all(id) };
+};
+
+// Moves a task with auto_complete set to done once every checklist item is checked
+const autoCompleteTask = (id: number | string) => {
+  const task = db.prepare("SELECT status, auto_complete FROM tasks WHERE id = ?").get(id) as any;
+  if (!task?.auto_complete || task.status === "done") return;
+  const { total, done } = db.prepare(
+    "SELECT COUNT(*) as total, COALESCE(SUM(completed), 0) as done FROM subtasks WHERE task_id = ?"
+  ).get(id) as { total: number, done: number };
+  if (total > 0 && done === total) {
+    db.prepare(`
+      UPDATE tasks SET
+        status = 'done',
+        completed_at = CURRENT_TIMESTAMP,
+        position = (SELECT COALESCE(MAX(position), -1) + 1 FROM tasks AS other WHERE other.status = 'done' AND other.user_id = tasks.user_id)
+      WHERE id = ?
+    `).run(id);
+    spawnNextOccurrence(id);
+  }
+};
+
+// Creates due-date, lecture and attendance reminders; dedupe_key keeps each reminder from being created twice
+// Unmarked lectures older than this are left alone, so importing a past term doesn't flood the bell
+const ATTENDANCE_REMINDER_DAYS = 3;
+
+const runReminderScheduler = () => {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const notify = db.prepare(`
+    INSERT OR IGNORE INTO notifications (user_id, type, title, body, ref_kind, ref_id, dedupe_key)
+    VALUES (@user_id, @type, @title, @body, @ref_kind, @ref_id, @dedupe_key)
+  `);
+
+  db.transaction(() => {
+    const openTasks = db.prepare(
+      "SELECT id, user_id, title, due_date FROM tasks WHERE status != 'done' AND due_date IS NOT NULL AND due_date != ''"
+    ).all() as { id: number, user_id: number, title: string, due_date: string }[];
+    for (const task of openTasks) {
+      if (isOverdue(task.due_date)) {
+        notify.run({
+          user_id: task.user_id, type: "task-overdue", title: `Overdue: ${task.title}`, body: `Was due ${task.due_date}`,
+          ref_kind: "task", ref_id: task.id, dedupe_key: `task-overdue:${task.id}:${task.due_date}`,
+        });
+      } else if (isDueSoon(task.due_date)) {
+        notify.run({
+          user_id: task.user_id, type: "task-due-soon", title: `Due soon: ${task.title}`, body: `Due ${task.due_date}`,
+          ref_kind: "task", ref_id: task.id, dedupe_key: `task-due-soon:${task.id}:${task.due_date}`,
+        });
+      }
+    }
+
+    // Timed lectures are announced an hour before they start; untimed ones once on the day
+    const now = new Date();
+    const todaysLectures = db.prepare("SELECT id, user_id, subject, topic, start_time, room FROM lectures WHERE date = ?").all(today) as any[];
+    for (const lecture of todaysLectures) {
+      if (lecture.start_time) {
+        const minutesUntil = differenceInMinutes(parseISO(`${today}T${lecture.start_time}`), now);
+        if (minutesUntil < 0 || minutesUntil > 60) continue;
+      }
+      notify.run({
+        user_id: lecture.user_id,
+        type: "lecture-soon",
+        title: lecture.start_time ? `${lecture.subject} starts at ${lecture.start_time}` : `${lecture.subject} lecture today`,
+        body: [lecture.topic, lecture.room].filter(Boolean).join(" · ") || null,
+        ref_kind: "lecture", ref_id: lecture.id, dedupe_key: `lecture-soon:${lecture.id}:${today}`,
+      });
+    }
+
+    const unmarked = db.prepare(`
+      SELECT id, user_id, subject, date FROM lectures
+      WHERE attendance_status IS NULL AND date >= ? AND (date < ? OR (date = ? AND end_time <= ?))
+    `).all(format(subDays(now, ATTENDANCE_REMINDER_DAYS), "yyyy-MM-dd"), today, today, format(now, "HH:mm")) as any[];
+    for (const lecture of unmarked) {
+      notify.run({
+        user_id: lecture.user_id, type: "attendance-unmarked", title: `Mark attendance for ${lecture.subject}`, body: `Lecture on ${lecture.date}`,
+        ref_kind: "lecture", ref_id: lecture.id, dedupe_key: `attendance-unmarked:${lecture.id}`,
+      });
+    }
+
+    // Reminders whose condition has since been resolved are dismissed automatically
+    db.prepare(`
+      UPDATE notifications SET dismissed_at = CURRENT_TIMESTAMP
+      WHERE dismissed_at IS NULL AND (
+        (ref_kind = 'task' AND type IN ('task-overdue', 'task-due-soon')
+          AND ref_id NOT IN (SELECT id FROM tasks WHERE status != 'done'))
+        OR (type = 'attendance-unmarked'
+          AND ref_id NOT IN (SELECT id FROM lectures WHERE attendance_status IS NULL))
+      )
+    `).run();
+  })();
+};
+
+// Lectures a subject still has this term: unmarked ones already scheduled plus timetable
+// occurrences through term end that haven't been materialised yet
+const countUpcomingLectures = (userId: number, today: string) => {
+  const upcoming: Record<string, number> = {};
+  const scheduled = db.prepare(
+    "SELECT subject, slot_id, date FROM lectures WHERE user_id = ? AND date >= ? AND attendance_status IS NULL"
+  ).all(userId, today) as { subject: string, slot_id: number | null, date: string }[];
+  const seen = new Set<string>();
+  for (const lecture of scheduled) {
+    upcoming[lecture.subject] = (upcoming[lecture.subject] || 0) + 1;
+    if (lecture.slot_id) seen.add(`${lecture.slot_id}:${lecture.date}`);
+  }
+
+  const marked = db.prepare(
+    "SELECT slot_id, date FROM lectures WHERE user_id = ? AND date >= ? AND slot_id IS NOT NULL AND attendance_status IS NOT NULL"
+  ).all(userId, today) as { slot_id: number, date: string }[];
+  marked.forEach(lecture => seen.add(`${lecture.slot_id}:${lecture.date}`));
+
+  const slots = db.prepare(`
+    SELECT s.id, s.subject, s.day_of_week, t.start_date, t.end_date
+    FROM timetable_slots s JOIN terms t ON t.id = s.term_id WHERE s.user_id = ? AND t.end_date >= ?
+  `).all(userId, today) as any[];
+  for (const slot of slots) {
+    const from = maxDate([parseISO(slot.start_date), parseISO(today)]);
+    let day = addDays(from, (slot.day_of_week - from.getDay() + 7) % 7);
+    for (; day <= parseISO(slot.end_date); day = addDays(day, 7)) {
+      if (!seen.has(`${slot.id}:${format(day, "yyyy-MM-dd")}`)) upcoming[slot.subject] = (upcoming[slot.subject] || 0) + 1;
+    }
+  }
+  return upcoming;
+};
+
+// Per-subject attendance against the minimum threshold (a percentage). canMiss is how many of the
+// next lectures can be skipped while staying at or above it; mustAttend is how many consecutive
+// lectures bring a subject back up (null when the threshold is 100% and one has been missed).
+const buildAttendanceSummary = (userId: number, threshold: number) => {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const rows = db.prepare(`
+    SELECT subject,
+      COALESCE(SUM(attendance_status = 'present'), 0) AS present,
+      COALESCE(SUM(attendance_status = 'absent'), 0) AS absent
+    FROM lectures WHERE user_id = ? GROUP BY subject ORDER BY subject COLLATE NOCASE
+  `).all(userId) as { subject: string, present: number, absent: number }[];
+  const upcomingBySubject = countUpcomingLectures(userId, today);
+  const ratio = threshold / 100;
+
+  return rows.map(({ subject, present, absent }) => {
+    const held = present + absent;
+    const upcoming = upcomingBySubject[subject] || 0;
+    const percent = held > 0 ? Math.round((present / held) * 1000) / 10 : null;
+    const canMiss = Math.max(0, Math.floor(present / ratio - held + 1e-9));
+    const mustAttend = present >= ratio * held ? 0
+      : ratio >= 1 ? null
+      : Math.ceil((ratio * held - present) / (1 - ratio) - 1e-9);
+
+    return {
+      subject, present, absent, held, upcoming, percent, canMiss, mustAttend,
+      belowThreshold: percent !== null && percent < threshold,
+      // Whether enough lectures remain this term to get back above the threshold
+      recoverable: mustAttend !== null && (upcoming === 0 || mustAttend <= upcoming),
+    };
+  });
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Creates lecture rows for every timetable slot from the later of term start and slot creation
+// up to two weeks ahead (capped at term end). Existing slot/date pairs are left untouched.
+const materialiseLectures = () => {
+  const horizon = addDays(new Date(), 14);
+  const slots = db.prepare(`
+    SELECT s.*, t.start_date, t.end_date FROM timetable_slots s JOIN terms t ON t.id = s.term_id
+  `).all() as any[];
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO lectures (user_id, subject, date, start_time, end_time, room, lecturer, slot_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    for (const slot of slots) {
+      const from = maxDate([parseISO(slot.start_date), parseISO(slot.created_at.slice(0, 10))]);
+      const to = minDate([parseISO(slot.end_date), horizon]);
+      let day = addDays(from, (slot.day_of_week - from.getDay() + 7) % 7);
+      for (; day <= to; day = addDays(day, 7)) {
+        insert.run(slot.user_id, slot.subject, format(day, "yyyy-MM-dd"), slot.start_time, slot.end_time, slot.room, slot.lecturer, slot.id);
+      }
+    }
+  })();
+};
+
+// Drops a slot's upcoming lectures that haven't been marked yet, so they can be regenerated
+const clearUpcomingSlotLectures = (slotId: number | string) => {
+  const stale = "SELECT id FROM lectures WHERE slot_id = ? AND date >= ? AND attendance_status IS NULL AND NOT completed";
+  const today = format(new Date(), "yyyy-MM-dd");
+  db.prepare(`DELETE FROM lecture_topics WHERE lecture_id IN (${stale})`).run(slotId, today);
+  db.prepare(`DELETE FROM lectures WHERE id IN (${stale})`).run(slotId, today);
+};
 
-  CREATE TABLE IF NOT EXISTS focus_sessions (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    duration INTEGER,
-    type TEXT,
-    date DATETIME DEFAULT CURRENT_TIMESTAMP
+// Tables included in backups, parents before children. refs maps a column to the table whose id it
+// holds, so merged rows can be re-pointed at freshly assigned ids; unique lists the alternate keys
+// used to recognise a row that already exists. Notifications and the search index are derived.
+const BACKUP_FORMAT = "productivity-dashboard-backup";
+const BACKUP_VERSION = 1;
+const BACKUP_TABLES: { name: string, refs?: Record<string, string>, unique?: string[][] }[] = [
+  { name: "settings" },
+  { name: "terms" },
+  { name: "timetable_slots", refs: { term_id: "terms" } },
+  { name: "tasks", refs: { next_occurrence_id: "tasks" } },
+  { name: "subtasks", refs: { task_id: "tasks" } },
+  { name: "lectures", refs: { slot_id: "timetable_slots" }, unique: [["ical_uid"], ["slot_id", "date"]] },
+  { name: "syllabus_units" },
+  { name: "syllabus_topics", refs: { unit_id: "syllabus_units" } },
+  { name: "lecture_topics", refs: { lecture_id: "lectures", topic_id: "syllabus_topics" } },
+  { name: "internship_logs" },
+  { name: "projects" },
+  { name: "project_milestones", refs: { project_id: "projects" } },
+  { name: "focus_sessions", refs: { task_id: "tasks", project_id: "projects" } },
+  { name: "plan_blocks", refs: { task_id: "tasks" } },
+];
+
+const tableColumns = (table: string) =>
+  db.prepare(`PRAGMA table_info(${table})`).all() as { name: string, notnull: number }[];
+
+// One user's rows of a backed-up table, without the owner column
+const ownedRows = (table: string, userId: number) => {
+  const rows = table === "lecture_topics"
+    ? db.prepare("SELECT * FROM lecture_topics WHERE lecture_id IN (SELECT id FROM lectures WHERE user_id = ?)").all(userId)
+    : db.prepare(`SELECT * FROM ${table} WHERE user_id = ?`).all(userId);
+  return (rows as Record<string, unknown>[]).map(({ user_id, ...row }) => row);
+};
+
+const exportBundle = (userId: number) => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exported_at: new Date().toISOString(),
+  tables: Object.fromEntries(BACKUP_TABLES.map(({ name }) => [name, ownedRows(name, userId)])),
+});
+
+const validateBundle = (bundle: any): string | null => {
+  if (!bundle || bundle.format !== BACKUP_FORMAT) return "Not a productivity dashboard backup";
+  if (!Number.isInteger(bundle.version) || bundle.version < 1 || bundle.version > BACKUP_VERSION) {
+    return `Unsupported backup version: ${bundle.version}`;
+  }
+  if (!bundle.tables || typeof bundle.tables !== "object") return "Backup has no tables";
+  for (const [name, rows] of Object.entries(bundle.tables)) {
+    if (!BACKUP_TABLES.some(table => table.name === name)) return `Unknown table: ${name}`;
+    if (!Array.isArray(rows) || rows.some(row => !row || typeof row !== "object" || Array.isArray(row))) {
+      return `Table ${name} must be a list of rows`;
+    }
+    const hasId = tableColumns(name).some(column => column.name === "id");
+    if (hasId && rows.some((row: any) => !Number.isInteger(row.id))) return `Every row in ${name} needs an integer id`;
+  }
+  return null;
+};
+
+// Rows are restored into the importing user's account. Ids are shared by every account, so rows
+// always get new ones and references are rewritten through an old -> new map. "replace" first wipes
+// the user's backed-up data (settings are overwritten key by key); "merge" keeps it and reuses rows
+// matching an existing unique key instead.
+const importBundle = (bundle: any, mode: "merge" | "replace", userId: number) => {
+  const idMaps: Record<string, Map<number, number>> = {};
+  const summary: Record<string, { imported: number, skipped: number }> = {};
+
+  db.transaction(() => {
+    if (mode === "replace") {
+      for (const { name } of [...BACKUP_TABLES].reverse()) {
+        if (name === "lecture_topics") {
+          db.prepare("DELETE FROM lecture_topics WHERE lecture_id IN (SELECT id FROM lectures WHERE user_id = ?)").run(userId);
+        } else if (name !== "settings") {
+          db.prepare(`DELETE FROM ${name} WHERE user_id = ?`).run(userId);
+        }
+      }
+      // Other rows that pointed at the deleted ones; the scheduler recreates reminders for imported rows
+      db.prepare("UPDATE focus_timers SET task_id = NULL, project_id = NULL, plan_block_id = NULL WHERE user_id = ?").run(userId);
+      db.prepare("DELETE FROM notifications WHERE user_id = ? AND ref_kind IN ('task', 'lecture')").run(userId);
+    }
+
+    for (const table of BACKUP_TABLES) {
+      const rows: any[] = bundle.tables[table.name] || [];
+      const columns = tableColumns(table.name);
+      const owned = columns.some(column => column.name === "user_id");
+      const idMap = idMaps[table.name] = new Map();
+      const selfRefs: { id: number, column: string, oldId: number }[] = [];
+      const counts = summary[table.name] = { imported: 0, skipped: 0 };
+      const verb = table.name === "settings" && mode === "replace" ? "INSERT OR REPLACE" : "INSERT OR IGNORE";
+
+      for (const row of rows) {
+        const values: Record<string, unknown> = owned ? { user_id: userId } : {};
+        let valid = true;
+        for (const column of columns) {
+          if (!(column.name in row) || column.name === "id" || column.name === "user_id") continue;
+          let value = row[column.name];
+          const target = table.refs?.[column.name];
+          if (target && value != null) {
+            if (target === table.name) {
+              selfRefs.push({ id: row.id, column: column.name, oldId: Number(value) });
+              value = null;
+            } else {
+              value = idMaps[target].get(Number(value)) ?? null;
+            }
+          }
+          if (value == null && column.notnull) valid = false;
+          values[column.name] = value;
+        }
+        if (!valid) {
+          counts.skipped++;
+          continue;
+        }
+
+        const names = Object.keys(values);
+        const info = db.prepare(
+          `${verb} INTO ${table.name} (${names.join(", ")}) VALUES (${names.map(name => `@${name}`).join(", ")})`
+        ).run(values);
+        if (info.changes > 0) {
+          counts.imported++;
+          if (row.id != null) idMap.set(row.id, Number(info.lastInsertRowid));
+          continue;
+        }
+
+        counts.skipped++;
+        const key = table.unique?.find(columns => columns.every(column => values[column] != null));
+        const existing = key && db.prepare(
+          `SELECT id FROM ${table.name} WHERE user_id = @user_id AND ${key.map(column => `${column} = @${column}`).join(" AND ")}`
+        ).get({ user_id: userId, ...Object.fromEntries(key.map(column => [column, values[column]])) }) as { id: number } | undefined;
+        if (existing && row.id != null) idMap.set(row.id, existing.id);
+      }
+
+      for (const { id, column, oldId } of selfRefs) {
+        const newId = idMap.get(id);
+        if (newId) db.prepare(`UPDATE ${table.name} SET ${column} = ? WHERE id = ?`).run(idMap.get(oldId) ?? null, newId);
+      }
+    }
+  })();
+  return summary;
+};
+
+const toCsv = (columns: string[], rows: Record<string, unknown>[]) => {
+  const cell = (value: unknown) => {
+    if (value == null) return "";
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [columns.join(","), ...rows.map(row => columns.map(column => cell(row[column])).join(","))].join("\r\n") + "\r\n";
+};
+
+// Accounts: passwords are stored as scrypt:<salt>:<hash>, sessions by the sha256 of their cookie token
+interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user: AuthUser;
+    }
+  }
+}
+
+const SESSION_COOKIE = "session";
+const SESSION_DAYS = 30;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Tables whose rows belong to a user (lecture_topics follows its lecture and topic)
+const OWNED_TABLES = [
+  "tasks", "subtasks", "lectures", "internship_logs", "projects", "project_milestones", "focus_sessions",
+  "terms", "timetable_slots", "syllabus_units", "syllabus_topics", "notifications", "settings",
+];
+const DEFAULT_SETTINGS = { internship_target_hours: "240", attendance_threshold: "75" };
+
+const hashPassword = (password: string) => {
+  const salt = randomBytes(16).toString("hex");
+  return `scrypt:${salt}:${scryptSync(password, salt, 64).toString("hex")}`;
+};
+
+const verifyPassword = (password: string, stored: string) => {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  return timingSafeEqual(scryptSync(password, salt, expected.length), expected);
+};
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+const createSession = (userId: number) => {
+  const token = randomBytes(32).toString("hex");
+  const now = new Date();
+  db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(now.toISOString());
+  db.prepare("INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)")
+    .run(hashToken(token), userId, addDays(now, SESSION_DAYS).toISOString());
+  return token;
+};
+
+// cookie-parser isn't a dependency and the session cookie is the only one the server reads
+const readSessionToken = (req: express.Request) => {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return null;
+};
+
+const sessionUser = (token: string | null) => {
+  if (!token) return undefined;
+  return db.prepare(`
+    SELECT u.id, u.name, u.email, u.role FROM sessions s JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > ?
+  `).get(hashToken(token), new Date().toISOString()) as AuthUser | undefined;
+};
+
+const setSessionCookie = (req: express.Request, res: express.Response, token: string) => {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: req.secure,
+    maxAge: SESSION_DAYS * 24 * 60 * 60 * 1000,
+  });
+};
+
+const getAccount = (userId: number) =>
+  db.prepare("SELECT id, name, email, role, calendar_token, created_at FROM users WHERE id = ?").get(userId);
+
+// Task, lecture and focus operations shared by the REST routes and the assistant's tools.
+// Failures are returned rather than thrown, with the HTTP status the route should answer with.
+type Failure = { error: string, status: 400 | 404 | 409 | 502 | 503 };
+
+const createTask = (userId: number, body: any): { id: number, position: number } | Failure => {
+  if (!String(body.title ?? "").trim()) return { error: "Title is required", status: 400 };
+  // Applied after the body so that fields passed as undefined (as the assistant's tools do) still get them
+  const fields = pickTaskFields({ ...body, priority: body.priority ?? "medium", status: body.status ?? "todo" });
+  if ("error" in fields) return { error: fields.error as string, status: 400 };
+  // New tasks go to the top of their column
+  const { position } = db.prepare(
+    "SELECT COALESCE(MIN(position), 1) - 1 as position FROM tasks WHERE status = ? AND user_id = ?"
+  ).get(fields.status, userId) as { position: number };
+  const info = db.prepare(`
+    INSERT INTO tasks (user_id, title, description, priority, status, due_date, completed_at, position, recurrence)
+    VALUES (?, ?, ?, ?, ?, ?, CASE WHEN ? = 'done' THEN CURRENT_TIMESTAMP END, ?, ?)
+  `).run(
+    userId, fields.title, fields.description ?? null, fields.priority, fields.status, fields.due_date ?? null,
+    fields.status, position, fields.recurrence ?? null,
   );
-`);
+  return { id: Number(info.lastInsertRowid), position };
+};
+
+const updateTask = (userId: number, id: number | string, body: any) => {
+  if (!db.prepare("SELECT id FROM tasks WHERE id = ? AND user_id = ?").get(id, userId)) {
+    return { error: "Task not found", status: 404 } as Failure;
+  }
+  const changes = pickTaskFields(body);
+  if ("error" in changes) return { error: changes.error, status: 400 } as Failure;
+
+  const fields = Object.keys(changes);
+  if (fields.length > 0) {
+    const assignments = fields.map(f => `${f} = @${f}`);
+    if ("status" in changes) {
+      assignments.push("completed_at = CASE WHEN @status = 'done' THEN COALESCE(completed_at, CURRENT_TIMESTAMP) ELSE NULL END");
+      // Moving to another column appends the task to the bottom of it
+      assignments.push("position = CASE WHEN status = @status THEN position ELSE (SELECT COALESCE(MAX(position), -1) + 1 FROM tasks AS other WHERE other.status = @status AND other.user_id = tasks.user_id) END");
+    }
+    db.prepare(`UPDATE tasks SET ${assignments.join(", ")} WHERE id = @id`).run({ ...changes, id });
+    if (changes.auto_complete) autoCompleteTask(id);
+    if (changes.status === "done") spawnNextOccurrence(id);
+  }
+  return getTask(id, userId);
+};
+
+const deleteTask = (userId: number, id: number | string): { success: true } | Failure => {
+  const info = db.transaction(() => {
+    db.prepare("DELETE FROM subtasks WHERE task_id = ? AND user_id = ?").run(id, userId);
+    db.prepare("UPDATE plan_blocks SET task_id = NULL WHERE task_id = ? AND user_id = ?").run(id, userId);
+    db.prepare("UPDATE focus_sessions SET task_id = NULL WHERE task_id = ? AND user_id = ?").run(id, userId);
+    db.prepare("UPDATE focus_timers SET task_id = NULL WHERE task_id = ? AND user_id = ?").run(id, userId);
+    return db.prepare("DELETE FROM tasks WHERE id = ? AND user_id = ?").run(id, userId);
+  })();
+  if (info.changes === 0) return { error: "Task not found", status: 404 };
+  return { success: true };
+};
+
+const createLecture = (userId: number, body: any): { id: number } | Failure => {
+  const { subject, topic, date, start_time, end_time, room, lecturer } = body;
+  if (!subject || !date) return { error: "Subject and date are required", status: 400 };
+  if ((start_time && !TIME_PATTERN.test(start_time)) || (end_time && !TIME_PATTERN.test(end_time))) {
+    return { error: "Times must be in HH:mm format", status: 400 };
+  }
+  const info = db.prepare(
+    "INSERT INTO lectures (user_id, subject, topic, date, start_time, end_time, room, lecturer) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+  ).run(userId, subject, topic ?? null, date, start_time || null, end_time || null, room || null, lecturer || null);
+  return { id: Number(info.lastInsertRowid) };
+};
+
+const updateLecture = (userId: number, id: number | string, body: any): { success: true } | Failure => {
+  const lecture = db.prepare("SELECT * FROM lectures WHERE id = ? AND user_id = ?").get(id, userId) as any;
+  if (!lecture) return { error: "Lecture not found", status: 404 };
+  const { attendance_status = lecture.attendance_status, completed = lecture.completed, topic_ids } = body;
+  if (attendance_status != null && !["present", "absent"].includes(attendance_status)) {
+    return { error: "attendance_status must be present, absent or null", status: 400 };
+  }
+
+  db.transaction(() => {
+    db.prepare("UPDATE lectures SET attendance_status = ?, completed = ? WHERE id = ?")
+      .run(attendance_status, completed ? 1 : 0, id);
+    if (Array.isArray(topic_ids)) {
+      db.prepare("DELETE FROM lecture_topics WHERE lecture_id = ?").run(id);
+      const link = db.prepare(
+        "INSERT OR IGNORE INTO lecture_topics (lecture_id, topic_id) SELECT ?, id FROM syllabus_topics WHERE id = ? AND user_id = ?"
+      );
+      topic_ids.forEach((topicId: number) => link.run(id, topicId, userId));
+    }
+    // A completed lecture covers every topic linked to it
+    if (completed) {
+      db.prepare(`
+        UPDATE syllabus_topics SET covered_at = ?
+        WHERE covered_at IS NULL AND id IN (SELECT topic_id FROM lecture_topics WHERE lecture_id = ?)
+      `).run(lecture.date, id);
+    }
+  })();
+  return { success: true };
+};
+
+// The task or project a focus session is spent on, checked to belong to the user
+const focusLink = (userId: number, body: any): { taskId: number | null, projectId: number | null } | Failure => {
+  const taskId = body.task_id ? Number(body.task_id) : null;
+  if (taskId && !db.prepare("SELECT 1 FROM tasks WHERE id = ? AND user_id = ?").get(taskId, userId)) {
+    return { error: "Task not found", status: 404 };
+  }
+  const projectId = body.project_id ? Number(body.project_id) : null;
+  if (projectId && !db.prepare("SELECT 1 FROM projects WHERE id = ? AND user_id = ?").get(projectId, userId)) {
+    return { error: "Project not found", status: 404 };
+  }
+  return { taskId, projectId };
+};
+
+// Work sessions may name the task or project they were spent on. Manual entries are always work and
+// may be dated in the past.
+const logFocusSession = (userId: number, body: any, manual = false): { id: number } | Failure => {
+  const duration = Number(body.duration);
+  if (!(duration > 0)) return { error: "duration must be a positive number of minutes", status: 400 };
+  const type = manual || body.type !== "break" ? "work" : "break";
+
+  const link = type === "work" ? focusLink(userId, body) : { taskId: null, projectId: null };
+  if ("error" in link) return link;
+
+  let date: string | null = null;
+  if (manual && body.date) {
+    const parsed = parseISO(String(body.date));
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(String(body.date)) || !isValid(parsed)) return { error: "date must be YYYY-MM-DD", status: 400 };
+    if (parsed > new Date()) return { error: "date can't be in the future", status: 400 };
+    date = String(body.date);
+  }
+
+  const info = db.prepare(`
+    INSERT INTO focus_sessions (user_id, duration, type, task_id, project_id, note, manual, date)
+    VALUES (?, ?, ?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+  `).run(userId, Math.round(duration), type, link.taskId, link.projectId, body.note ? String(body.note).trim() || null : null, manual ? 1 : 0, date);
+  return { id: Number(info.lastInsertRowid) };
+};
+
+// The Pomodoro timer lives on the server so a session survives reloads and is shared by every tab.
+// Each user has one row; started_at is set while a session is in progress.
+interface FocusTimer {
+  user_id: number;
+  phase: PomodoroPhase;
+  completed_work: number;
+  duration_ms: number | null;
+  started_at: number | null;
+  paused_at: number | null;
+  paused_ms: number;
+  task_id: number | null;
+  project_id: number | null;
+  plan_block_id: number | null;
+  completed_phase: PomodoroPhase | null;
+  completed_minutes: number | null;
+  completed_at: number | null;
+}
+
+const isPhase = (value: unknown): value is PomodoroPhase => Object.keys(PHASE_LABELS).includes(value as string);
+
+const inSession = (timer: FocusTimer) => timer.started_at !== null;
+
+const loadFocusTimer = (userId: number) => {
+  db.prepare("INSERT OR IGNORE INTO focus_timers (user_id) VALUES (?)").run(userId);
+  return db.prepare("SELECT * FROM focus_timers WHERE user_id = ?").get(userId) as FocusTimer;
+};
+
+const userPomodoroConfig = (userId: number) => {
+  const rows = db.prepare("SELECT key, value FROM settings WHERE user_id = ?").all(userId) as { key: string, value: string }[];
+  return pomodoroConfig(Object.fromEntries(rows.map(r => [r.key, r.value])));
+};
+
+// Logs the time actually spent in the session and moves on to the next phase. Only work sessions
+// that ran to the end count toward the long-break interval or mark their plan block done; one
+// stopped early leaves the timer on work rather than starting a break.
+const endFocusSession = (timer: FocusTimer, now: number, early: boolean) => {
+  const minutes = Math.round(sessionElapsedMs(timer, now) / 60000);
+  const completedWork = timer.phase === "work" && !early ? timer.completed_work + 1 : timer.completed_work;
+  const next = timer.phase === "work" && early ? "work" : nextPhase(userPomodoroConfig(timer.user_id), timer.phase, completedWork);
+  db.transaction(() => {
+    if (minutes > 0) {
+      logFocusSession(timer.user_id, {
+        duration: minutes, type: sessionType(timer.phase), task_id: timer.task_id, project_id: timer.project_id,
+      });
+    }
+    if (timer.plan_block_id && !early) {
+      db.prepare("UPDATE plan_blocks SET done = 1 WHERE id = ? AND user_id = ?").run(timer.plan_block_id, timer.user_id);
+    }
+    db.prepare(`
+      UPDATE focus_timers SET phase = ?, completed_work = ?, duration_ms = NULL, started_at = NULL, paused_at = NULL,
+        paused_ms = 0, plan_block_id = NULL, completed_phase = ?, completed_minutes = ?, completed_at = ?
+      WHERE user_id = ?
+    `).run(next, completedWork, timer.phase, minutes, now, timer.user_id);
+  })();
+};
+
+// A session that has run its full length is completed as soon as anyone looks at it. `now` is the
+// server's clock, which clients use to correct for their own.
+const currentFocusTimer = (userId: number) => {
+  const now = Date.now();
+  const timer = loadFocusTimer(userId);
+  if (inSession(timer) && sessionRemainingMs(timer, now) <= 0) {
+    endFocusSession(timer, now, false);
+    return { ...loadFocusTimer(userId), now };
+  }
+  return { ...timer, now };
+};
+
+// Completes sessions that ran out with no tab open to notice, including while the server was down
+const completeExpiredFocusTimers = () => {
+  const now = Date.now();
+  const expired = db.prepare(
+    "SELECT * FROM focus_timers WHERE started_at IS NOT NULL AND paused_at IS NULL AND started_at + paused_ms + duration_ms <= ?"
+  ).all(now) as FocusTimer[];
+  for (const timer of expired) endFocusSession(timer, now, false);
+};
+
+// Starts the current phase, or a different one given as `phase`. Starting a plan block runs a work
+// session until the block's end time, linked to the block's task.
+const startFocusSession = (userId: number, body: any) => {
+  const timer = currentFocusTimer(userId);
+  if (inSession(timer)) return { error: "A focus session is already in progress", status: 409 } as Failure;
+  const now = timer.now;
+
+  let phase = body.phase ?? timer.phase;
+  if (!isPhase(phase)) return { error: "phase must be work, short_break or long_break", status: 400 } as Failure;
+  let duration = phaseMinutes(userPomodoroConfig(userId), phase) * 60 * 1000;
+  let link: { taskId: number | null, projectId: number | null } | Failure = { taskId: timer.task_id, projectId: timer.project_id };
+  if ("task_id" in body || "project_id" in body) link = focusLink(userId, body);
+  if ("error" in link) return link;
+
+  let blockId: number | null = null;
+  if (body.plan_block_id) {
+    const block = db.prepare("SELECT * FROM plan_blocks WHERE id = ? AND user_id = ?").get(body.plan_block_id, userId) as any;
+    if (!block) return { error: "Plan block not found", status: 404 } as Failure;
+    const start = parseISO(`${block.date}T${block.start_time}`).getTime();
+    const end = parseISO(`${block.date}T${block.end_time}`).getTime();
+    if (block.done || end <= now) return { error: "That block is already over", status: 400 } as Failure;
+    phase = "work";
+    duration = Math.max(end - Math.max(start, now), 60 * 1000);
+    link = { taskId: block.task_id, projectId: null };
+    blockId = block.id;
+  }
+
+  db.prepare(`
+    UPDATE focus_timers SET phase = ?, duration_ms = ?, started_at = ?, paused_at = NULL, paused_ms = 0,
+      task_id = ?, project_id = ?, plan_block_id = ?
+    WHERE user_id = ?
+  `).run(phase, duration, now, link.taskId, link.projectId, blockId, userId);
+  return currentFocusTimer(userId);
+};
+
+const pauseFocusSession = (userId: number) => {
+  const timer = currentFocusTimer(userId);
+  if (!inSession(timer) || timer.paused_at !== null) return { error: "No focus session is running", status: 409 } as Failure;
+  db.prepare("UPDATE focus_timers SET paused_at = ? WHERE user_id = ?").run(timer.now, userId);
+  return currentFocusTimer(userId);
+};
+
+const resumeFocusSession = (userId: number) => {
+  const timer = currentFocusTimer(userId);
+  if (!inSession(timer) || timer.paused_at === null) return { error: "No focus session is paused", status: 409 } as Failure;
+  db.prepare("UPDATE focus_timers SET paused_ms = paused_ms + ? - paused_at, paused_at = NULL WHERE user_id = ?").run(timer.now, userId);
+  return currentFocusTimer(userId);
+};
+
+// Ends the session early, logging the time spent so far, or with `discard` throws it away and
+// leaves the phase to start again
+const stopFocusSession = (userId: number, body: any) => {
+  const timer = currentFocusTimer(userId);
+  if (!inSession(timer)) return { error: "No focus session is in progress", status: 409 } as Failure;
+  if (body.discard) {
+    db.prepare(
+      "UPDATE focus_timers SET duration_ms = NULL, started_at = NULL, paused_at = NULL, paused_ms = 0, plan_block_id = NULL WHERE user_id = ?"
+    ).run(userId);
+  } else {
+    endFocusSession(timer, timer.now, true);
+  }
+  return currentFocusTimer(userId);
+};
+
+// Changes what the timer is working on at any time, and the phase when no session is in progress
+const updateFocusTimer = (userId: number, body: any) => {
+  const timer = currentFocusTimer(userId);
+  if ("phase" in body) {
+    if (!isPhase(body.phase)) return { error: "phase must be work, short_break or long_break", status: 400 } as Failure;
+    if (inSession(timer) && body.phase !== timer.phase) {
+      return { error: "Stop the current session before switching phase", status: 409 } as Failure;
+    }
+    db.prepare("UPDATE focus_timers SET phase = ? WHERE user_id = ?").run(body.phase, userId);
+  }
+  if ("task_id" in body || "project_id" in body) {
+    const link = focusLink(userId, body);
+    if ("error" in link) return link;
+    db.prepare("UPDATE focus_timers SET task_id = ?, project_id = ? WHERE user_id = ?").run(link.taskId, link.projectId, userId);
+  }
+  return currentFocusTimer(userId);
+};
+
+// The assistant's view of a user's data. Every list is capped and free text is shortened, so the
+// snapshot stays a few kilobytes however much data the account holds.
+const ASSISTANT_LIMITS = { tasks: 25, lectures: 30, projects: 10, text: 120 };
+
+const clip = (text: string | null) =>
+  text && text.length > ASSISTANT_LIMITS.text ? `${text.slice(0, ASSISTANT_LIMITS.text - 1)}…` : text;
+
+const buildAssistantContext = (user: AuthUser) => {
+  const today = new Date();
+  const todayKey = format(today, "yyyy-MM-dd");
+  const weekStart = startOfWeek(today, { weekStartsOn: 1 });
+
+  const { openTotal } = db.prepare(
+    "SELECT COUNT(*) AS openTotal FROM tasks WHERE user_id = ? AND status != 'done'"
+  ).get(user.id) as { openTotal: number };
+  // Overdue and soonest-due first, then by priority, so the cap drops the least pressing tasks
+  const tasks = db.prepare(`
+    SELECT id, title, priority, status, due_date,
+      (SELECT COUNT(*) FROM subtasks WHERE task_id = tasks.id) AS subtasks,
+      (SELECT COUNT(*) FROM subtasks WHERE task_id = tasks.id AND completed) AS subtasks_done
+    FROM tasks
+    WHERE user_id = ? AND status != 'done'
+    ORDER BY due_date IS NULL OR due_date = '', due_date, CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END, position
+    LIMIT ?
+  `).all(user.id, ASSISTANT_LIMITS.tasks) as any[];
+
+  const lectures = db.prepare(`
+    SELECT id, subject, topic, date, start_time, end_time, room, attendance_status
+    FROM lectures WHERE user_id = ? AND date BETWEEN ? AND ?
+    ORDER BY date, start_time
+    LIMIT ?
+  `).all(user.id, format(weekStart, "yyyy-MM-dd"), format(addDays(weekStart, 6), "yyyy-MM-dd"), ASSISTANT_LIMITS.lectures) as any[];
+
+  const setting = db.prepare(
+    "SELECT value FROM settings WHERE user_id = ? AND key = 'attendance_threshold'"
+  ).get(user.id) as { value: string } | undefined;
+  const threshold = Math.min(Math.max(Number(setting?.value) || 75, 1), 100);
+  const attendance = buildAttendanceSummary(user.id, threshold)
+    .filter(subject => subject.held > 0)
+    .map(({ subject, percent, canMiss, mustAttend, belowThreshold }) => ({ subject, percent, canMiss, mustAttend, belowThreshold }));
+
+  const focusDays = db.prepare(`
+    SELECT date(date) AS day, SUM(duration) AS minutes, COUNT(*) AS sessions
+    FROM focus_sessions
+    WHERE user_id = ? AND type = 'work' AND date(date) >= ?
+    GROUP BY day ORDER BY day
+  `).all(user.id, format(subDays(today, 6), "yyyy-MM-dd")) as { day: string, minutes: number, sessions: number }[];
+  const focusMinutes = focusDays.reduce((sum, day) => sum + day.minutes, 0);
+
+  const { projectTotal } = db.prepare(
+    "SELECT COUNT(*) AS projectTotal FROM projects WHERE user_id = ? AND status = 'active'"
+  ).get(user.id) as { projectTotal: number };
+  const projects = db.prepare(`
+    SELECT name, progress,
+      (SELECT title || COALESCE(' (due ' || due_date || ')', '') FROM project_milestones
+        WHERE project_id = projects.id AND NOT completed ORDER BY due_date IS NULL, due_date, id LIMIT 1) AS next_milestone
+    FROM projects WHERE user_id = ? AND status = 'active'
+    ORDER BY id DESC
+    LIMIT ?
+  `).all(user.id, ASSISTANT_LIMITS.projects) as any[];
+
+  return {
+    snapshot: {
+      user: { name: user.name, role: user.role },
+      today: `${todayKey} (${format(today, "EEEE")}) ${format(today, "HH:mm")}`,
+      openTasks: tasks.map(task => ({
+        id: task.id,
+        title: clip(task.title),
+        priority: task.priority,
+        status: task.status,
+        due: task.due_date || null,
+        overdue: isOverdue(task.due_date) || undefined,
+        subtasks: task.subtasks > 0 ? `${task.subtasks_done}/${task.subtasks} done` : undefined,
+      })),
+      openTasksNotShown: openTotal - tasks.length,
+      lecturesThisWeek: lectures.map(lecture => ({
+        id: lecture.id,
+        subject: lecture.subject,
+        topic: clip(lecture.topic),
+        date: lecture.date,
+        time: lecture.start_time ? `${lecture.start_time}${lecture.end_time ? `-${lecture.end_time}` : ""}` : null,
+        room: lecture.room,
+        attendance: lecture.attendance_status,
+      })),
+      attendance: { threshold, subjects: attendance },
+      focusLast7Days: { totalMinutes: focusMinutes, days: focusDays },
+      activeProjects: projects.map(project => ({ ...project, name: clip(project.name), next_milestone: clip(project.next_milestone) })),
+    },
+    // What the client shows under the reply
+    shared: {
+      tasks: { included: tasks.length, total: openTotal },
+      lectures: lectures.length,
+      attendanceSubjects: attendance.length,
+      focusMinutes,
+      projects: { included: projects.length, total: projectTotal },
+    },
+  };
+};
+
+// Functions the assistant can call, each mapped onto one of the operations above. Destructive calls
+// are stored in assistant_actions and only run once the user confirms them in the app.
+type AssistantArea = "tasks" | "lectures" | "focus";
+
+interface AssistantTool {
+  area: AssistantArea;
+  declaration: FunctionDeclaration;
+  destructive?: (userId: number, args: any) => boolean;
+  describe: (userId: number, args: any) => string;
+  run: (userId: number, args: any) => any;
+}
+
+interface AssistantAction {
+  id?: number;
+  tool: string;
+  area: AssistantArea;
+  summary: string;
+  status: "done" | "failed" | "pending" | "cancelled";
+  error?: string | null;
+}
+
+const taskTitle = (userId: number, id: unknown) =>
+  (db.prepare("SELECT title FROM tasks WHERE id = ? AND user_id = ?").get(id, userId) as { title: string } | undefined)?.title ?? `task #${id}`;
+
+const findLecture = (userId: number, id: unknown) =>
+  db.prepare("SELECT subject, date, attendance_status FROM lectures WHERE id = ? AND user_id = ?").get(id, userId) as
+    { subject: string, date: string, attendance_status: string | null } | undefined;
+
+const DATE_PARAM = { type: Type.STRING, description: "Date as YYYY-MM-DD; resolve words like 'Friday' from today's date in the context" };
+const TIME_PARAM = { type: Type.STRING, description: "24-hour time as HH:mm" };
+
+const ASSISTANT_TOOLS: Record<string, AssistantTool> = {
+  create_task: {
+    area: "tasks",
+    declaration: {
+      name: "create_task",
+      description: "Create a new task in the To Do column.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          priority: { type: Type.STRING, enum: TASK_PRIORITIES },
+          due_date: DATE_PARAM,
+        },
+        required: ["title"],
+      },
+    },
+    describe: (_, args) =>
+      `Created task "${args.title}"${args.priority ? ` (${args.priority} priority)` : ""}${args.due_date ? `, due ${args.due_date}` : ""}`,
+    run: (userId, args) => createTask(userId, {
+      title: args.title, description: args.description, priority: args.priority, due_date: args.due_date,
+    }),
+  },
+  update_task: {
+    area: "tasks",
+    declaration: {
+      name: "update_task",
+      description: "Change a task's title, priority, due date or status. Use status 'done' to complete it.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "Task id from the context" },
+          title: { type: Type.STRING },
+          priority: { type: Type.STRING, enum: TASK_PRIORITIES },
+          status: { type: Type.STRING, enum: TASK_STATUSES },
+          due_date: DATE_PARAM,
+        },
+        required: ["id"],
+      },
+    },
+    describe: (userId, args) => {
+      const changes = ["title", "priority", "status", "due_date"]
+        .filter(field => args[field] !== undefined)
+        .map(field => `${field.replace("_", " ")} → ${args[field]}`);
+      return `Updated "${taskTitle(userId, args.id)}": ${changes.join(", ") || "no changes"}`;
+    },
+    run: (userId, args) => updateTask(userId, args.id, {
+      title: args.title, priority: args.priority, status: args.status, due_date: args.due_date,
+    }),
+  },
+  delete_task: {
+    area: "tasks",
+    declaration: {
+      name: "delete_task",
+      description: "Permanently delete a task and its checklist. The user has to confirm this in the app.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: { id: { type: Type.INTEGER, description: "Task id from the context" } },
+        required: ["id"],
+      },
+    },
+    // Unknown ids go straight through to deleteTask and fail, rather than asking to confirm nothing
+    destructive: (userId, args) => Boolean(getTask(args.id, userId)),
+    describe: (userId, args) => `Delete task "${taskTitle(userId, args.id)}"`,
+    run: (userId, args) => deleteTask(userId, args.id),
+  },
+  add_lecture: {
+    area: "lectures",
+    declaration: {
+      name: "add_lecture",
+      description: "Add a one-off lecture (timetable lectures are created automatically).",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          subject: { type: Type.STRING },
+          topic: { type: Type.STRING },
+          date: DATE_PARAM,
+          start_time: TIME_PARAM,
+          end_time: TIME_PARAM,
+          room: { type: Type.STRING },
+        },
+        required: ["subject", "date"],
+      },
+    },
+    describe: (_, args) => `Added ${args.subject} lecture on ${args.date}${args.start_time ? ` at ${args.start_time}` : ""}`,
+    run: (userId, args) => createLecture(userId, {
+      subject: args.subject, topic: args.topic, date: args.date, start_time: args.start_time, end_time: args.end_time, room: args.room,
+    }),
+  },
+  update_lecture: {
+    area: "lectures",
+    declaration: {
+      name: "update_lecture",
+      description: "Mark attendance for a lecture and/or whether its material has been completed. Changing attendance that was already recorded needs the user's confirmation.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER, description: "Lecture id from the context" },
+          attendance_status: { type: Type.STRING, enum: ["present", "absent"] },
+          completed: { type: Type.BOOLEAN },
+        },
+        required: ["id"],
+      },
+    },
+    // Overwriting a recorded mark changes attendance history, so it waits for confirmation
+    destructive: (userId, args) => {
+      const recorded = findLecture(userId, args.id)?.attendance_status;
+      return !!args.attendance_status && !!recorded && recorded !== args.attendance_status;
+    },
+    describe: (userId, args) => {
+      const lecture = findLecture(userId, args.id);
+      const label = lecture ? `${lecture.subject} on ${lecture.date}` : `lecture #${args.id}`;
+      const changes = [
+        args.attendance_status && `marked ${args.attendance_status}`,
+        args.completed !== undefined && (args.completed ? "marked completed" : "marked not completed"),
+      ].filter(Boolean);
+      return `${label}: ${changes.join(", ") || "no changes"}`;
+    },
+    run: (userId, args) => updateLecture(userId, args.id, { attendance_status: args.attendance_status, completed: args.completed }),
+  },
+  log_focus_session: {
+    area: "focus",
+    declaration: {
+      name: "log_focus_session",
+      description: "Record a focus (work) or break session that already happened.",
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          minutes: { type: Type.INTEGER },
+          type: { type: Type.STRING, enum: ["work", "break"] },
+          task_id: { type: Type.INTEGER, description: "Task id from the context, if the time was spent on one" },
+        },
+        required: ["minutes"],
+      },
+    },
+    describe: (userId, args) => `Logged a ${args.minutes}-minute ${args.type === "break" ? "break" : "focus session"}${
+      args.task_id && args.type !== "break" ? ` on "${taskTitle(userId, args.task_id)}"` : ""
+    }`,
+    run: (userId, args) => logFocusSession(userId, { duration: args.minutes, type: args.type, task_id: args.task_id }),
+  },
+};
+
+// Runs one function call from the model, or parks it for confirmation. `response` goes back to the model.
+const callAssistantTool = (userId: number, name: string, args: Record<string, unknown>) => {
+  const tool = ASSISTANT_TOOLS[name];
+  if (!tool) return { action: null, response: { error: `Unknown function ${name}` } };
+  const base = { tool: name, area: tool.area, summary: tool.describe(userId, args) };
+
+  if (tool.destructive?.(userId, args)) {
+    const info = db.prepare(
+      "INSERT INTO assistant_actions (user_id, tool, args, summary) VALUES (?, ?, ?, ?)"
+    ).run(userId, name, JSON.stringify(args), base.summary);
+    const action: AssistantAction = { ...base, id: Number(info.lastInsertRowid), status: "pending" };
+    return { action, response: { status: "awaiting_confirmation", message: "Nothing has changed yet; the user must confirm this in the app." } };
+  }
+
+  const result = tool.run(userId, args);
+  if (result && "error" in result) {
+    const action: AssistantAction = { ...base, status: "failed", error: result.error };
+    return { action, response: { error: result.error } };
+  }
+  const action: AssistantAction = { ...base, status: "done" };
+  return { action, response: { result } };
+};
+
+// Rounds of function calls allowed per message before the model has to answer in text
+const MAX_TOOL_ROUNDS = 4;
+// Most recent messages of a conversation sent to the model with each new one
+const HISTORY_LIMIT = 20;
+
+const DEFAULT_ASSISTANT_PROMPT = "You are the Darshan Productivity OS AI Assistant. You help an AI & Data Science student manage their tasks, lectures, and projects. Provide concise, professional, and actionable advice, formatted as Markdown. The context is a snapshot of their current data; refer to specific tasks, lectures and dates from it, and say so when it doesn't contain what you need. When asked to change something, call the matching function using ids from the context, then briefly say what you did. Deleting tasks and changing recorded attendance wait for the user's confirmation; say so instead of claiming they are done.";
+
+// AI_PROVIDER picks the backend ("gemini" or the offline "stub"); AI_MODEL and AI_SYSTEM_PROMPT
+// override the Gemini model and the assistant's instructions
+const AI_CONFIG = {
+  provider: (process.env.AI_PROVIDER || "gemini").toLowerCase(),
+  model: process.env.AI_MODEL || "gemini-3-flash-preview",
+  prompt: process.env.AI_SYSTEM_PROMPT || DEFAULT_ASSISTANT_PROMPT,
+};
+
+interface AssistantRequest {
+  prompt: string;
+  snapshot: unknown;
+  contents: Content[];
+  tools: FunctionDeclaration[];
+  // Asks for a JSON reply matching the schema; the stub answers with scripted() instead
+  json?: { schema: Schema, scripted: () => unknown };
+}
+
+// A model backend. Conversations use Gemini's content format whichever provider answers them.
+interface AssistantProvider {
+  name: string;
+  model: string;
+  // Why requests would fail right now, or null when the provider is ready
+  unavailableReason: () => string | null;
+  // Yields the parts of the model's turn as they arrive
+  stream: (request: AssistantRequest) => AsyncIterable<Part[]>;
+}
+
+const createGeminiProvider = (model: string): AssistantProvider => {
+  let client: GoogleGenAI | null = null;
+  return {
+    name: "gemini",
+    model,
+    unavailableReason: () => (process.env.GEMINI_API_KEY ? null : "GEMINI_API_KEY is not set"),
+    async *stream({ prompt, snapshot, contents, tools, json }) {
+      client ||= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+      const stream = await client.models.generateContentStream({
+        model,
+        contents,
+        config: {
+          systemInstruction: `${prompt}\n\nContext: ${JSON.stringify(snapshot)}`,
+          tools: tools.length > 0 ? [{ functionDeclarations: tools }] : undefined,
+          responseMimeType: json ? "application/json" : undefined,
+          responseSchema: json?.schema,
+        },
+      });
+      for await (const chunk of stream) yield chunk.candidates?.[0]?.content?.parts || [];
+    },
+  };
+};
+
+// Scripted replies for running offline. A message of the form `call <function> {json args}` makes
+// the matching function call; anything else gets a fixed reply describing the context it was given.
+const createStubProvider = (): AssistantProvider => ({
+  name: "stub",
+  model: "stub",
+  unavailableReason: () => null,
+  async *stream({ snapshot, contents, tools, json }) {
+    if (json) {
+      yield [{ text: JSON.stringify(json.scripted()) }];
+      return;
+    }
+
+    const last = contents[contents.length - 1]?.parts || [];
+    const responses = last.filter(part => part.functionResponse).map(part => part.functionResponse!);
+    if (responses.length > 0) {
+      for (const { name, response } of responses) {
+        yield [{ text: response?.error ? `${name} failed: ${response.error}\n` : `${name} finished.\n` }];
+      }
+      return;
+    }
+
+    const message = last.map(part => part.text || "").join("").trim();
+    const call = /^call (\w+)\s*([\s\S]*)$/.exec(message);
+    if (call && tools.some(tool => tool.name === call[1])) {
+      let args: Record<string, unknown>;
+      try {
+        args = call[2] ? JSON.parse(call[2]) : {};
+      } catch {
+        yield [{ text: `The arguments for ${call[1]} aren't valid JSON.` }];
+        return;
+      }
+      yield [{ functionCall: { name: call[1], args } }];
+      return;
+    }
+
+    const context = snapshot as { openTasks?: unknown[], lecturesThisWeek?: unknown[] };
+    yield [{ text: "This is the offline assistant stub, so it can't give real advice. " }];
+    yield [{ text: `Your context has ${context.openTasks?.length ?? 0} open tasks and ${context.lecturesThisWeek?.length ?? 0} lectures this week. ` }];
+    yield [{ text: "Send `call <function> {json}` to try an action." }];
+  },
+});
+
+const createAssistantProvider = (): AssistantProvider => {
+  if (AI_CONFIG.provider === "gemini") return createGeminiProvider(AI_CONFIG.model);
+  if (AI_CONFIG.provider === "stub") return createStubProvider();
+  return {
+    name: AI_CONFIG.provider,
+    model: AI_CONFIG.model,
+    unavailableReason: () => `Unknown AI_PROVIDER "${AI_CONFIG.provider}"; use "gemini" or "stub"`,
+    stream: () => { throw new Error("No AI provider configured"); },
+  };
+};
+
+const assistantProvider = createAssistantProvider();
+
+const getConversation = (userId: number, id: number | string) =>
+  db.prepare("SELECT * FROM assistant_conversations WHERE id = ? AND user_id = ?").get(id, userId) as
+    { id: number, title: string, created_at: string, updated_at: string } | undefined;
+
+// Stored messages with their JSON decoded. Actions that were pending when saved are re-read, since
+// the user may have confirmed or cancelled them since.
+const conversationMessages = (conversationId: number, limit = -1) => {
+  const rows = db.prepare(`
+    SELECT * FROM (SELECT * FROM assistant_messages WHERE conversation_id = ? ORDER BY id DESC LIMIT ?) ORDER BY id
+  `).all(conversationId, limit) as any[];
+  const actionStatus = db.prepare("SELECT status, error FROM assistant_actions WHERE id = ?");
+  return rows.map(row => ({
+    ...row,
+    shared: row.shared ? JSON.parse(row.shared) : null,
+    actions: (row.actions ? JSON.parse(row.actions) as AssistantAction[] : []).map(action =>
+      action.id && action.status === "pending" ? { ...action, ...(actionStatus.get(action.id) as object) } : action
+    ),
+  }));
+};
+
+// Validates a chat request, stores the user's message (creating the conversation if needed) and
+// gathers what the model needs for the reply
+const startAssistantTurn = (user: AuthUser, body: any) => {
+  const unavailable = assistantProvider.unavailableReason();
+  if (unavailable) return { error: `AI is unavailable: ${unavailable}`, status: 503 } as Failure;
+  const message = String(body.message || "").trim();
+  if (!message) return { error: "Message is required", status: 400 } as Failure;
+
+  const conversationId = body.conversation_id ?? null;
+  if (conversationId !== null && !(Number.isInteger(conversationId) && conversationId > 0)) {
+    return { error: "conversation_id must be a positive integer", status: 400 } as Failure;
+  }
+  let conversation = conversationId ? getConversation(user.id, conversationId) : undefined;
+  if (conversationId && !conversation) return { error: "Conversation not found", status: 404 } as Failure;
+  db.transaction(() => {
+    if (!conversation) {
+      const title = message.length > 60 ? `${message.slice(0, 59)}…` : message;
+      const info = db.prepare("INSERT INTO assistant_conversations (user_id, title) VALUES (?, ?)").run(user.id, title);
+      conversation = getConversation(user.id, Number(info.lastInsertRowid));
+    }
+    db.prepare("INSERT INTO assistant_messages (conversation_id, role, text) VALUES (?, 'user', ?)").run(conversation!.id, message);
+    db.prepare("UPDATE assistant_conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(conversation!.id);
+  })();
+
+  const history: Content[] = conversationMessages(conversation!.id, HISTORY_LIMIT).map(row => ({
+    role: row.role === "user" ? "user" : "model",
+    // Replies that only made changes have no text; the model still needs to know what they did
+    parts: [{ text: row.text || row.actions.map((action: AssistantAction) => `${action.summary} (${action.status})`).join("\n") || "…" }],
+  }));
+  return { conversation: conversation!, history, ...buildAssistantContext(user) };
+};
+
+const saveAssistantReply = (conversationId: number, text: string, shared: unknown, actions: AssistantAction[]) => {
+  const info = db.prepare(
+    "INSERT INTO assistant_messages (conversation_id, role, text, shared, actions) VALUES (?, 'ai', ?, ?, ?)"
+  ).run(conversationId, text, JSON.stringify(shared), JSON.stringify(actions));
+  db.prepare("UPDATE assistant_conversations SET updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(conversationId);
+  return conversationMessages(conversationId, 1).find(row => row.id === Number(info.lastInsertRowid));
+};
+
+// Streams one reply over the conversation so far, running function calls as the model makes them.
+// onText receives reply text as it arrives and onAction each change made or proposed.
+const runAssistantTurn = async (
+  userId: number,
+  history: Content[],
+  snapshot: unknown,
+  onText: (delta: string) => void,
+  onAction: (action: AssistantAction) => void,
+) => {
+  const contents = [...history];
+  for (let round = 0; ; round++) {
+    const stream = assistantProvider.stream({
+      prompt: AI_CONFIG.prompt,
+      snapshot,
+      contents,
+      tools: round < MAX_TOOL_ROUNDS ? Object.values(ASSISTANT_TOOLS).map(tool => tool.declaration) : [],
+    });
+
+    // Every part is kept, not just the calls, so the model's own turn goes back to it unchanged
+    const parts: Part[] = [];
+    for await (const chunkParts of stream) {
+      parts.push(...chunkParts);
+      const text = chunkParts.filter(part => part.text && !part.thought).map(part => part.text).join("");
+      if (text) onText(text);
+    }
+
+    const calls = parts.filter(part => part.functionCall).map(part => part.functionCall!);
+    if (calls.length === 0) return;
+    contents.push({ role: "model", parts });
+    contents.push({
+      role: "user",
+      parts: calls.map(call => {
+        const { action, response } = callAssistantTool(userId, call.name || "", call.args || {});
+        if (action) onAction(action);
+        return { functionResponse: { id: call.id, name: call.name, response } };
+      }),
+    });
+  }
+};
+
+// Day planner: the model proposes focus blocks for today around the user's lectures, and
+// validatePlan checks every proposal before it is shown and again before it is saved
+const PLAN_LIMITS = { blocks: 8, minMinutes: 15, maxMinutes: 120, tasks: 25 };
+// Lectures stored without an end time are treated as lasting this long
+const DEFAULT_LECTURE_MINUTES = 60;
+const PLAN_BREAK_MINUTES = 10;
+
+const PLAN_PROMPT = "You plan a student's day. Using the context, schedule exactly the requested number of focus blocks of about block_minutes each, only inside freeSlots, with short breaks between them. Put overdue tasks first, then high-priority ones, then the rest by due date; each block works on one task from the context (use its id) or, if there are fewer tasks than blocks, on general study with task_id null. Times are 24-hour HH:mm. Add a one or two sentence summary of the plan.";
+
+const PLAN_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    blocks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task_id: { type: Type.INTEGER, nullable: true },
+          title: { type: Type.STRING },
+          start_time: { type: Type.STRING },
+          end_time: { type: Type.STRING },
+        },
+        required: ["title", "start_time", "end_time"],
+      },
+    },
+  },
+  required: ["blocks"],
+};
+
+interface PlanBlock {
+  task_id: number | null;
+  title: string;
+  start_time: string;
+  end_time: string;
+}
+
+interface PlanTask {
+  id: number;
+  title: string;
+  priority: string;
+  due_date: string | null;
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+// Overdue work has to come before high-priority work, which comes before everything else
+const planRank = (task: PlanTask | undefined) => !task ? 2 : isOverdue(task.due_date) ? 0 : task.priority === "high" ? 1 : 2;
+
+const planLectures = (userId: number, date: string) =>
+  (db.prepare(`
+    SELECT subject, start_time, end_time FROM lectures
+    WHERE user_id = ? AND date(date) = ? AND start_time IS NOT NULL AND start_time != ''
+    ORDER BY start_time
+  `).all(userId, date) as { subject: string, start_time: string, end_time: string | null }[]).map(lecture => {
+    const start = toMinutes(lecture.start_time);
+    const end = lecture.end_time ? toMinutes(lecture.end_time) : start + DEFAULT_LECTURE_MINUTES;
+    return { subject: lecture.subject, start, end: Math.max(end, start + 1) };
+  });
+
+// Open tasks in the order they should be worked on
+const planTasks = (userId: number) =>
+  (db.prepare(`
+    SELECT id, title, priority, due_date FROM tasks
+    WHERE user_id = ? AND status != 'done'
+    ORDER BY due_date IS NULL OR due_date = '', due_date, CASE priority WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END, position
+  `).all(userId) as PlanTask[]).sort((a, b) => planRank(a) - planRank(b));
+
+// Gaps of at least PLAN_LIMITS.minMinutes between lectures inside [start, end)
+const freeSlots = (lectures: { start: number, end: number }[], start: number, end: number) => {
+  const slots: { start: number, end: number }[] = [];
+  let cursor = start;
+  for (const lecture of lectures) {
+    if (lecture.start > cursor) slots.push({ start: cursor, end: Math.min(lecture.start, end) });
+    cursor = Math.max(cursor, lecture.end);
+  }
+  slots.push({ start: cursor, end });
+  return slots.filter(slot => slot.end - slot.start >= PLAN_LIMITS.minMinutes);
+};
+
+// What the stub provider offers as a plan: tasks in order, packed into the free slots
+const packPlan = (tasks: PlanTask[], slots: { start: number, end: number }[], count: number, minutes: number) => {
+  const blocks: PlanBlock[] = [];
+  for (const slot of slots) {
+    for (let start = slot.start; blocks.length < count && slot.end - start >= PLAN_LIMITS.minMinutes; ) {
+      const end = Math.min(start + minutes, slot.end);
+      const task = tasks[blocks.length];
+      blocks.push({ task_id: task?.id ?? null, title: task?.title ?? "General study", start_time: fromMinutes(start), end_time: fromMinutes(end) });
+      start = end + PLAN_BREAK_MINUTES;
+    }
+  }
+  return { summary: `${blocks.length} focus blocks between your lectures, most urgent work first.`, blocks };
+};
+
+/**
+ * Checks proposed blocks for `date`: valid times inside the window, no clashes with lectures or
+ * each other, only the user's open tasks, and at most `limit` blocks. Invalid blocks are dropped.
+ * The remaining slots are then refilled so overdue and high-priority work comes first, swapping
+ * in urgent tasks the proposal left out. Every change is explained in `notes`.
+ */
+const validatePlan = (
+  userId: number,
+  date: string,
+  proposed: unknown,
+  { window, limit = PLAN_LIMITS.blocks }: { window?: { start: number, end: number }, limit?: number } = {},
+) => {
+  const lectures = planLectures(userId, date);
+  const tasks = planTasks(userId);
+  const taskById = new Map(tasks.map(task => [task.id, task]));
+  const notes: string[] = [];
+  let blocks: PlanBlock[] = [];
+
+  const candidates = (Array.isArray(proposed) ? proposed : [])
+    .map((raw: any) => ({ raw, start: String(raw?.start_time ?? ""), end: String(raw?.end_time ?? "") }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+  for (const { raw, start, end } of candidates) {
+    const label = `"${clip(String(raw?.title || "Untitled block"))}"${TIME_PATTERN.test(start) ? ` at ${start}` : ""}`;
+    if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || toMinutes(end) <= toMinutes(start)) {
+      notes.push(`Dropped ${label}: its times aren't valid`);
+      continue;
+    }
+    const [from, to] = [toMinutes(start), toMinutes(end)];
+    if (window && (from < window.start || to > window.end)) {
+      notes.push(`Dropped ${label}: it's outside ${fromMinutes(window.start)}-${fromMinutes(window.end)}`);
+      continue;
+    }
+    const taskId = raw?.task_id == null ? null : Number(raw.task_id);
+    if (taskId !== null && !taskById.has(taskId)) {
+      notes.push(`Dropped ${label}: it isn't one of your open tasks`);
+      continue;
+    }
+    const lecture = lectures.find(lecture => from < lecture.end && lecture.start < to);
+    if (lecture) {
+      notes.push(`Dropped ${label}: it overlaps ${lecture.subject} (${fromMinutes(lecture.start)}-${fromMinutes(lecture.end)})`);
+      continue;
+    }
+    if (blocks.some(block => from < toMinutes(block.end_time) && toMinutes(block.start_time) < to)) {
+      notes.push(`Dropped ${label}: it overlaps another block`);
+      continue;
+    }
+    if (blocks.length >= limit) {
+      notes.push(`Dropped ${label}: only ${limit} blocks were asked for`);
+      continue;
+    }
+    blocks.push({
+      task_id: taskId,
+      title: taskId !== null ? taskById.get(taskId)!.title : clip(String(raw?.title || "General study"))!,
+      start_time: start,
+      end_time: end,
+    });
+  }
+
+  // The slots stay where they are; only the work in them is reordered
+  const work = blocks.map(({ task_id, title }) => ({ task_id, title }));
+  const rankOf = (item: { task_id: number | null }) => planRank(item.task_id !== null ? taskById.get(item.task_id) : undefined);
+  const planned = new Set(work.map(item => item.task_id));
+  for (const task of tasks.filter(task => planRank(task) < 2 && !planned.has(task.id))) {
+    const replace = work.map(rankOf).lastIndexOf(2);
+    if (replace === -1) break;
+    notes.push(`Scheduled "${task.title}" in place of "${work[replace].title}" since it's ${isOverdue(task.due_date) ? "overdue" : "high priority"}`);
+    work[replace] = { task_id: task.id, title: task.title };
+  }
+  const ordered = [...work].sort((a, b) => rankOf(a) - rankOf(b));
+  if (ordered.some((item, index) => item !== work[index])) {
+    notes.push("Moved overdue and high-priority work into the earliest blocks");
+  }
+  blocks = blocks.map((block, index) => ({ ...block, ...ordered[index] }));
+
+  return { blocks, notes };
+};
+
+// Drafts a plan for today. Options come from the request body: focus_blocks, block_minutes and an
+// optional start_time/end_time window, which never starts before the current time.
+const draftPlan = async (userId: number, body: any) => {
+  const count = Number(body.focus_blocks ?? 4);
+  if (!Number.isInteger(count) || count < 1 || count > PLAN_LIMITS.blocks) {
+    return { error: `focus_blocks must be between 1 and ${PLAN_LIMITS.blocks}`, status: 400 } as Failure;
+  }
+  const minutes = Number(body.block_minutes ?? 50);
+  if (!Number.isInteger(minutes) || minutes < PLAN_LIMITS.minMinutes || minutes > PLAN_LIMITS.maxMinutes) {
+    return { error: `block_minutes must be between ${PLAN_LIMITS.minMinutes} and ${PLAN_LIMITS.maxMinutes}`, status: 400 } as Failure;
+  }
+  for (const key of ["start_time", "end_time"]) {
+    if (body[key] && !TIME_PATTERN.test(body[key])) return { error: `${key} must be HH:mm`, status: 400 } as Failure;
+  }
+
+  const now = new Date();
+  const date = format(now, "yyyy-MM-dd");
+  // Rounded up to the next 5 minutes so the first block doesn't start in the past
+  const earliest = Math.ceil((now.getHours() * 60 + now.getMinutes()) / 5) * 5;
+  const window = {
+    start: Math.max(toMinutes(body.start_time || "08:00"), earliest),
+    end: toMinutes(body.end_time || "22:00"),
+  };
+  const lectures = planLectures(userId, date);
+  const slots = freeSlots(lectures, window.start, window.end);
+  if (slots.length === 0) return { error: "There's no free time left to plan today", status: 400 } as Failure;
+
+  const unavailable = assistantProvider.unavailableReason();
+  if (unavailable) return { error: `AI is unavailable: ${unavailable}`, status: 503 } as Failure;
+
+  const tasks = planTasks(userId);
+  const context = {
+    today: `${date} (${format(now, "EEEE")}) ${format(now, "HH:mm")}`,
+    focus_blocks: count,
+    block_minutes: minutes,
+    freeSlots: slots.map(slot => `${fromMinutes(slot.start)}-${fromMinutes(slot.end)}`),
+    lectures: lectures.map(lecture => `${lecture.subject} ${fromMinutes(lecture.start)}-${fromMinutes(lecture.end)}`),
+    tasks: tasks.slice(0, PLAN_LIMITS.tasks).map(task => ({
+      id: task.id,
+      title: clip(task.title),
+      priority: task.priority,
+      due: task.due_date || null,
+      overdue: isOverdue(task.due_date) || undefined,
+    })),
+  };
+
+  let text = "";
+  for await (const parts of assistantProvider.stream({
+    prompt: PLAN_PROMPT,
+    snapshot: context,
+    contents: [{ role: "user", parts: [{ text: "Plan my day." }] }],
+    tools: [],
+    json: { schema: PLAN_SCHEMA, scripted: () => packPlan(tasks, slots, count, minutes) },
+  })) {
+    text += parts.filter(part => part.text && !part.thought).map(part => part.text).join("");
+  }
+  // Truncated or malformed output is the model's failure, not the user's
+  let proposal: any;
+  try {
+    proposal = JSON.parse(text);
+  } catch {
+    proposal = null;
+  }
+  if (!proposal || typeof proposal !== "object" || !Array.isArray(proposal.blocks)) {
+    return { error: "The model returned an unusable plan", status: 502 } as Failure;
+  }
+  return {
+    date,
+    summary: typeof proposal.summary === "string" ? proposal.summary : null,
+    ...validatePlan(userId, date, proposal.blocks, { window, limit: count }),
+  };
+};
+
+const getPlan = (userId: number, date: string) =>
+  db.prepare("SELECT * FROM plan_blocks WHERE user_id = ? AND date = ? ORDER BY start_time").all(userId, date);
+
+const clampProgress = (value: unknown) => Math.min(Math.max(Math.round(Number(value) || 0), 0), 100);
 
 async function startServer() {
   const app = express();
-  const PORT = 3000;
+  const PORT = Number(process.env.PORT) || 3000;
+
+  // Backups are restored in a single request, so /api/import parses its own body with a higher limit
+  const jsonBody = express.json();
+  app.use((req, res, next) => (req.path === "/api/import" ? next() : jsonBody(req, res, next)));
+
+  // Auth API: signing up and logging in are the only routes open without a session
+  app.post("/api/auth/signup", (req, res) => {
+    const { name, email, password, role } = req.body;
+    if (!name?.trim() || !EMAIL_PATTERN.test(email?.trim() || "")) {
+      return res.status(400).json({ error: "Name and a valid email are required" });
+    }
+    if (typeof password !== "string" || password.length < 8) {
+      return res.status(400).json({ error: "Password must be at least 8 characters" });
+    }
+    if (db.prepare("SELECT id FROM users WHERE email = ?").get(email.trim())) {
+      return res.status(409).json({ error: "An account with that email already exists" });
+    }
+
+    const userId = db.transaction(() => {
+      const isFirst = !db.prepare("SELECT id FROM users LIMIT 1").get();
+      const info = db.prepare(
+        "INSERT INTO users (name, email, role, password_hash, calendar_token) VALUES (?, ?, ?, ?, ?)"
+      ).run(name.trim(), email.trim(), role?.trim() || null, hashPassword(password), randomBytes(24).toString("hex"));
+      const id = Number(info.lastInsertRowid);
+      // The first account takes over everything created before accounts existed
+      if (isFirst) {
+        for (const table of OWNED_TABLES) db.prepare(`UPDATE ${table} SET user_id = ? WHERE user_id IS NULL`).run(id);
+      }
+      const seed = db.prepare("INSERT OR IGNORE INTO settings (user_id, key, value) VALUES (?, ?, ?)");
+      Object.entries(DEFAULT_SETTINGS).forEach(([key, value]) => seed.run(id, key, value));
+      return id;
+    })();
+
+    setSessionCookie(req, res, createSession(userId));
+    res.json(getAccount(userId));
+  });
 
-  app.use(express.json());
+  app.post("/api/auth/login", (req, res) => {
+    const { email, password } = req.body;
+    const user = db.prepare("SELECT id, password_hash FROM users WHERE email = ?").get(String(email || "").trim()) as any;
+    if (!user || typeof password !== "string" || !verifyPassword(password, user.password_hash)) {
+      return res.status(401).json({ error: "Invalid email or password" });
+    }
+    setSessionCookie(req, res, createSession(user.id));
+    res.json(getAccount(user.id));
+  });
+
+  // Every other API route needs a signed-in user. Calendar apps can't send cookies, so the
+  // feed also accepts the per-user token from its subscription URL.
+  app.use("/api", (req, res, next) => {
+    const user = sessionUser(readSessionToken(req)) || (req.path === "/calendar.ics" && req.query.token
+      ? db.prepare("SELECT id, name, email, role FROM users WHERE calendar_token = ?").get(String(req.query.token)) as AuthUser | undefined
+      : undefined);
+    if (!user) return res.status(401).json({ error: "Not signed in" });
+    req.user = user;
+    next();
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    const token = readSessionToken(req);
+    if (token) db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(hashToken(token));
+    res.clearCookie(SESSION_COOKIE);
+    res.json({ success: true });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    res.json(getAccount(req.user.id));
+  });
+
+  app.patch("/api/auth/me", (req, res) => {
+    const { name, role } = req.body;
+    if (name !== undefined && !String(name).trim()) return res.status(400).json({ error: "Name can't be empty" });
+    db.prepare("UPDATE users SET name = COALESCE(?, name), role = CASE WHEN ? THEN ? ELSE role END WHERE id = ?")
+      .run(name?.trim() ?? null, role === undefined ? 0 : 1, role?.trim() || null, req.user.id);
+    res.json(getAccount(req.user.id));
+  });
+
+  // Issues a new calendar feed token, cutting off calendars subscribed with the old one
+  app.post("/api/auth/calendar-token", (req, res) => {
+    db.prepare("UPDATE users SET calendar_token = ? WHERE id = ?").run(randomBytes(24).toString("hex"), req.user.id);
+    res.json(getAccount(req.user.id));
+  });
 
   // AI Assistant Endpoint
+  app.get("/api/ai/status", (req, res) => {
+    const reason = assistantProvider.unavailableReason();
+    res.json({ available: !reason, provider: assistantProvider.name, model: assistantProvider.model, reason });
+  });
+
+  // Conversations API
+  app.get("/api/ai/conversations", (req, res) => {
+    const conversations = db.prepare(
+      "SELECT id, title, created_at, updated_at FROM assistant_conversations WHERE user_id = ? ORDER BY updated_at DESC, id DESC"
+    ).all(req.user.id);
+    res.json(conversations);
+  });
+
+  app.get("/api/ai/conversations/:id", (req, res) => {
+    const conversation = getConversation(req.user.id, req.params.id);
+    if (!conversation) return res.status(404).json({ error: "Conversation not found" });
+    res.json({ ...conversation, messages: conversationMessages(conversation.id) });
+  });
+
+  app.patch("/api/ai/conversations/:id", (req, res) => {
+    const title = String(req.body.title || "").trim();
+    if (!title) return res.status(400).json({ error: "Title is required" });
+    const info = db.prepare("UPDATE assistant_conversations SET title = ? WHERE id = ? AND user_id = ?").run(title, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Conversation not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/ai/conversations/:id", (req, res) => {
+    if (!getConversation(req.user.id, req.params.id)) return res.status(404).json({ error: "Conversation not found" });
+    db.transaction(() => {
+      db.prepare("DELETE FROM assistant_messages WHERE conversation_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM assistant_conversations WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  // Both chat routes take { message, conversation_id? } and start a new conversation without an id.
+  // The context is built here from the signed-in user's data rather than trusted from the client.
   app.post("/api/ai/chat", async (req, res) => {
-    const { message, context } = req.body;
+    let conversation: ReturnType<typeof getConversation>;
+    let shared: unknown;
+    const actions: AssistantAction[] = [];
+    let text = "";
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-      const model = ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `User Message: ${message}\nContext: ${JSON.stringify(context)}`,
-        config: {
-          systemInstruction: "You are the Darshan Productivity OS AI Assistant. You help an AI & Data Science student manage their tasks, lectures, and projects. Provide concise, professional, and actionable advice.",
-        }
-      });
-      const response = await model;
-      res.json({ text: response.text });
+      const turn = startAssistantTurn(req.user, req.body);
+      if ("error" in turn) return res.status(turn.status).json({ error: turn.error });
+      ({ conversation, shared } = turn);
+      await runAssistantTurn(req.user.id, turn.history, turn.snapshot, delta => { text += delta; }, action => actions.push(action));
+      const message = saveAssistantReply(conversation.id, text, shared, actions);
+      res.json({ conversation, message, text, shared, actions });
     } catch (error) {
       console.error("AI Error:", error);
-      res.status(500).json({ error: "Failed to generate AI response" });
+      // Changes already made stay made, so the client still needs to hear about them
+      if (conversation && actions.length > 0) saveAssistantReply(conversation.id, text, shared, actions);
+      res.status(500).json({ error: "Failed to generate AI response", conversation, actions });
     }
   });
 
+  // Server-sent events: conversation, context, then delta/action as the reply is produced, and
+  // finally done (with the saved message) or error
+  app.post("/api/ai/chat/stream", async (req, res) => {
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    let conversation: ReturnType<typeof getConversation>;
+    let shared: unknown;
+    const actions: AssistantAction[] = [];
+    let text = "";
+    try {
+      const turn = startAssistantTurn(req.user, req.body);
+      if ("error" in turn) return res.status(turn.status).json({ error: turn.error });
+      ({ conversation, shared } = turn);
+
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.flushHeaders();
+      send("conversation", conversation);
+      send("context", shared);
+      await runAssistantTurn(
+        req.user.id,
+        turn.history,
+        turn.snapshot,
+        delta => {
+          text += delta;
+          send("delta", { text: delta });
+        },
+        action => {
+          actions.push(action);
+          send("action", action);
+        },
+      );
+      send("done", { message: saveAssistantReply(conversation.id, text, shared, actions) });
+    } catch (error) {
+      console.error("AI Error:", error);
+      // Setting up the turn failed before the stream started
+      if (!res.headersSent) return res.status(500).json({ error: "Failed to generate AI response" });
+      if (conversation && (text || actions.length > 0)) saveAssistantReply(conversation.id, text, shared, actions);
+      send("error", { error: "Failed to generate AI response" });
+    }
+    res.end();
+  });
+
+  app.post("/api/ai/actions/:id/confirm", (req, res) => {
+    const pending = db.prepare(
+      "SELECT * FROM assistant_actions WHERE id = ? AND user_id = ? AND status = 'pending'"
+    ).get(req.params.id, req.user.id) as any;
+    if (!pending) return res.status(404).json({ error: "No pending action to confirm" });
+    const tool = ASSISTANT_TOOLS[pending.tool];
+    const result = tool.run(req.user.id, JSON.parse(pending.args));
+    const error = result && "error" in result ? result.error as string : null;
+    db.prepare("UPDATE assistant_actions SET status = ?, error = ?, resolved_at = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(error ? "failed" : "done", error, pending.id);
+    const action: AssistantAction = { id: pending.id, tool: pending.tool, area: tool.area, summary: pending.summary, status: error ? "failed" : "done", error };
+    res.json(action);
+  });
+
+  app.post("/api/ai/actions/:id/cancel", (req, res) => {
+    const pending = db.prepare(
+      "SELECT * FROM assistant_actions WHERE id = ? AND user_id = ? AND status = 'pending'"
+    ).get(req.params.id, req.user.id) as any;
+    if (!pending) return res.status(404).json({ error: "No pending action to cancel" });
+    db.prepare("UPDATE assistant_actions SET status = 'cancelled', resolved_at = CURRENT_TIMESTAMP WHERE id = ?").run(pending.id);
+    const action: AssistantAction = { id: pending.id, tool: pending.tool, area: ASSISTANT_TOOLS[pending.tool].area, summary: pending.summary, status: "cancelled" };
+    res.json(action);
+  });
+
+  // Day planner: the AI drafts today's blocks, the client shows them and saves them once accepted
+  app.post("/api/ai/plan", async (req, res) => {
+    try {
+      const result = await draftPlan(req.user.id, req.body);
+      if ("error" in result) return res.status(result.status).json({ error: result.error });
+      res.json(result);
+    } catch (error) {
+      console.error("AI Error:", error);
+      res.status(500).json({ error: "Failed to generate a plan" });
+    }
+  });
+
+  app.get("/api/plan", (req, res) => {
+    const date = String(req.query.date || format(new Date(), "yyyy-MM-dd"));
+    res.json(getPlan(req.user.id, date));
+  });
+
+  // Replaces the blocks for the day that aren't done yet with the accepted ones, checked again here
+  app.post("/api/plan", (req, res) => {
+    const date = String(req.body.date || "");
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValid(parseISO(date))) return res.status(400).json({ error: "A valid date is required" });
+    const { blocks, notes } = validatePlan(req.user.id, date, req.body.blocks);
+    if (blocks.length === 0) return res.status(400).json({ error: "The plan has no valid blocks", notes });
+
+    const insert = db.prepare(
+      "INSERT INTO plan_blocks (user_id, date, start_time, end_time, task_id, title) VALUES (?, ?, ?, ?, ?, ?)"
+    );
+    db.transaction(() => {
+      db.prepare("DELETE FROM plan_blocks WHERE user_id = ? AND date = ? AND NOT done").run(req.user.id, date);
+      for (const block of blocks) insert.run(req.user.id, date, block.start_time, block.end_time, block.task_id, block.title);
+    })();
+    res.json({ blocks: getPlan(req.user.id, date), notes });
+  });
+
+  app.patch("/api/plan/:id", (req, res) => {
+    const info = db.prepare("UPDATE plan_blocks SET done = ? WHERE id = ? AND user_id = ?")
+      .run(req.body.done ? 1 : 0, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Plan block not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/plan/:id", (req, res) => {
+    const info = db.prepare("DELETE FROM plan_blocks WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Plan block not found" });
+    res.json({ success: true });
+  });
+
   // Tasks API
   app.get("/api/tasks", (req, res) => {
-    const tasks = db.prepare("SELECT * FROM tasks ORDER BY created_at DESC").all();
-    res.json(tasks);
+    const tasks = db.prepare(
+      `SELECT *, ${trackedMinutes("task_id", "tasks")} FROM tasks WHERE user_id = ? ORDER BY position, created_at DESC`
+    ).all(req.user.id);
+    res.json(withSubtasks(req.user.id, tasks));
   });
 
   app.post("/api/tasks", (req, res) => {
-    const { title, description, priority, status, due_date } = req.body;
-    const info = db.prepare(
-      "INSERT INTO tasks (title, description, priority, status, due_date) VALUES (?, ?, ?, ?, ?)"
-    ).run(title, description, priority, status, due_date);
-    res.json({ id: info.lastInsertRowid });
+    const result = createTask(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
   });
 
-  app.patch("/api/tasks/:id", (req, res) => {
-    const { status, priority } = req.body;
-    if (status) db.prepare("UPDATE tasks SET status = ? WHERE id = ?").run(status, req.params.id);
-    if (priority) db.prepare("UPDATE tasks SET priority = ? WHERE id = ?").run(priority, req.params.id);
+  // Rewrites the order of one or more kanban columns, e.g. { columns: { "todo": [3, 1], "done": [2] } }
+  app.post("/api/tasks/reorder", (req, res) => {
+    const columns = req.body.columns as Record<string, number[]> | undefined;
+    if (!columns || typeof columns !== "object") return res.status(400).json({ error: "columns is required" });
+    for (const [status, ids] of Object.entries(columns)) {
+      if (!TASK_STATUSES.includes(status)) return res.status(400).json({ error: `Unknown status: ${status}` });
+      if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id))) {
+        return res.status(400).json({ error: `columns.${status} must be an array of task ids` });
+      }
+    }
+
+    const move = db.prepare(`
+      UPDATE tasks SET
+        position = @position,
+        completed_at = CASE
+          WHEN @status != 'done' THEN NULL
+          WHEN status = 'done' THEN completed_at
+          ELSE CURRENT_TIMESTAMP
+        END,
+        status = @status
+      WHERE id = @id AND user_id = @user_id
+    `);
+    db.transaction(() => {
+      const moved: number[] = [];
+      for (const [status, ids] of Object.entries(columns)) {
+        ids.forEach((id, position) => {
+          if (move.run({ id, status, position, user_id: req.user.id }).changes > 0) moved.push(id);
+        });
+      }
+      (columns.done || []).filter(id => moved.includes(id)).forEach(id => spawnNextOccurrence(id));
+    })();
     res.json({ success: true });
   });
 
+  app.patch("/api/tasks/:id", (req, res) => {
+    const result = updateTask(req.user.id, req.params.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  app.delete("/api/tasks/:id", (req, res) => {
+    const result = deleteTask(req.user.id, req.params.id);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  // Subtasks API: every route responds with the parent task and its updated checklist
+  app.post("/api/tasks/:id/subtasks", (req, res) => {
+    const { title } = req.body;
+    if (!title?.trim()) return res.status(400).json({ error: "Title is required" });
+    if (!getTask(req.params.id, req.user.id)) return res.status(404).json({ error: "Task not found" });
+    db.prepare(`
+      INSERT INTO subtasks (user_id, task_id, title, position)
+      VALUES (?, ?, ?, (SELECT COALESCE(MAX(position), -1) + 1 FROM subtasks WHERE task_id = ?))
+    `).run(req.user.id, req.params.id, title.trim(), req.params.id);
+    res.json(getTask(req.params.id, req.user.id));
+  });
+
+  app.patch("/api/tasks/:id/subtasks/:subtaskId", (req, res) => {
+    const { completed } = req.body;
+    const title = req.body.title === undefined ? null : String(req.body.title ?? "").trim();
+    if (title === "") return res.status(400).json({ error: "Title cannot be empty" });
+    const info = db.prepare(`
+      UPDATE subtasks SET
+        title = COALESCE(?, title),
+        completed = COALESCE(?, completed)
+      WHERE id = ? AND task_id = ? AND user_id = ?
+    `).run(title, completed === undefined ? null : (completed ? 1 : 0), req.params.subtaskId, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Subtask not found" });
+    if (completed) autoCompleteTask(req.params.id);
+    res.json(getTask(req.params.id, req.user.id));
+  });
+
+  app.delete("/api/tasks/:id/subtasks/:subtaskId", (req, res) => {
+    if (!getTask(req.params.id, req.user.id)) return res.status(404).json({ error: "Task not found" });
+    db.prepare("DELETE FROM subtasks WHERE id = ? AND task_id = ?").run(req.params.subtaskId, req.params.id);
+    autoCompleteTask(req.params.id);
+    res.json(getTask(req.params.id, req.user.id));
+  });
+
+  app.post("/api/tasks/:id/subtasks/reorder", (req, res) => {
+    const { ids } = req.body;
+    if (!Array.isArray(ids)) return res.status(400).json({ error: "ids must be an array of subtask ids" });
+    if (!getTask(req.params.id, req.user.id)) return res.status(404).json({ error: "Task not found" });
+    const move = db.prepare("UPDATE subtasks SET position = ? WHERE id = ? AND task_id = ?");
+    db.transaction(() => {
+      ids.forEach((id: number, position: number) => move.run(position, id, req.params.id));
+    })();
+    res.json(getTask(req.params.id, req.user.id));
+  });
+
   // Lectures API
   app.get("/api/lectures", (req, res) => {
-    const lectures = db.prepare("SELECT * FROM lectures ORDER BY date DESC").all();
-    res.json(lectures);
+    const lectures = db.prepare(`
+      SELECT l.*, (SELECT group_concat(topic_id) FROM lecture_topics WHERE lecture_id = l.id) AS topic_ids
+      FROM lectures l WHERE l.user_id = ? ORDER BY date DESC, start_time DESC
+    `).all(req.user.id) as any[];
+    res.json(lectures.map(lecture => ({
+      ...lecture,
+      topic_ids: lecture.topic_ids ? String(lecture.topic_ids).split(",").map(Number) : [],
+    })));
   });
 
   app.post("/api/lectures", (req, res) => {
-    const { subject, topic, date } = req.body;
-    db.prepare("INSERT INTO lectures (subject, topic, date) VALUES (?, ?, ?)").run(subject, topic, date);
+    const result = createLecture(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
     res.json({ success: true });
   });
 
   app.patch("/api/lectures/:id", (req, res) => {
-    const { attendance_status } = req.body;
-    db.prepare("UPDATE lectures SET attendance_status = ? WHERE id = ?").run(attendance_status, req.params.id);
+    const result = updateLecture(req.user.id, req.params.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  app.get("/api/attendance", (req, res) => {
+    const setting = db.prepare(
+      "SELECT value FROM settings WHERE user_id = ? AND key = 'attendance_threshold'"
+    ).get(req.user.id) as { value: string } | undefined;
+    const threshold = Math.min(Math.max(Number(setting?.value) || 75, 1), 100);
+    res.json({ threshold, subjects: buildAttendanceSummary(req.user.id, threshold) });
+  });
+
+  // Calendar API
+  // ?tasks=events exports tasks as all-day events for apps that ignore VTODO
+  app.get("/api/calendar.ics", (req, res) => {
+    const tasksAsEvents = req.query.tasks === "events";
+    const components: ICalComponent[] = [];
+
+    const tasks = db.prepare("SELECT * FROM tasks WHERE user_id = ? AND due_date IS NOT NULL AND due_date != ''").all(req.user.id) as any[];
+    for (const task of tasks) {
+      const props: [string, string][] = [
+        ["UID", `task-${task.id}@productivity-dashboard`],
+        ["SUMMARY", escapeText(task.title)],
+      ];
+      if (task.description) props.push(["DESCRIPTION", escapeText(task.description)]);
+      if (tasksAsEvents) {
+        props.push(
+          ["DTSTART;VALUE=DATE", icalDate(task.due_date)],
+          ["DTEND;VALUE=DATE", icalDate(format(addDays(parseISO(task.due_date), 1), "yyyy-MM-dd"))],
+          ["TRANSP", "TRANSPARENT"],
+        );
+      } else {
+        props.push(
+          ["DUE;VALUE=DATE", icalDate(task.due_date)],
+          ["PRIORITY", String({ high: 1, medium: 5, low: 9 }[task.priority as string] ?? 0)],
+          ["STATUS", task.status === "done" ? "COMPLETED" : task.status === "in-progress" ? "IN-PROCESS" : "NEEDS-ACTION"],
+        );
+      }
+      components.push({ type: tasksAsEvents ? "VEVENT" : "VTODO", props });
+    }
+
+    const lectures = db.prepare("SELECT * FROM lectures WHERE user_id = ? AND date IS NOT NULL AND date != ''").all(req.user.id) as any[];
+    for (const lecture of lectures) {
+      const props: [string, string][] = [
+        ["UID", lecture.ical_uid || `lecture-${lecture.id}@productivity-dashboard`],
+        ["SUMMARY", escapeText(lecture.subject)],
+      ];
+      if (lecture.topic) props.push(["DESCRIPTION", escapeText(lecture.topic)]);
+      if (lecture.room) props.push(["LOCATION", escapeText(lecture.room)]);
+      if (lecture.start_time) {
+        props.push(["DTSTART", icalDateTime(lecture.date, lecture.start_time)]);
+        if (lecture.end_time) props.push(["DTEND", icalDateTime(lecture.date, lecture.end_time)]);
+      } else {
+        props.push(
+          ["DTSTART;VALUE=DATE", icalDate(lecture.date)],
+          ["DTEND;VALUE=DATE", icalDate(format(addDays(parseISO(lecture.date.slice(0, 10)), 1), "yyyy-MM-dd"))],
+        );
+      }
+      components.push({ type: "VEVENT", props });
+    }
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Content-Disposition", 'inline; filename="productivity.ics"');
+    res.send(buildCalendar("Productivity Dashboard", components));
+  });
+
+  // Body is the raw .ics file; events become lectures, matched to earlier imports by UID
+  app.post("/api/calendar/import", express.text({ type: ["text/calendar", "text/plain"], limit: "5mb" }), (req, res) => {
+    if (typeof req.body !== "string" || !/BEGIN:VCALENDAR/i.test(req.body)) {
+      return res.status(400).json({ error: "Expected an iCalendar (.ics) file" });
+    }
+    const events = parseCalendar(req.body);
+    const existing = db.prepare("SELECT id FROM lectures WHERE user_id = ? AND ical_uid = ?");
+    const upsert = db.prepare(`
+      INSERT INTO lectures (user_id, subject, topic, date, start_time, end_time, room, ical_uid)
+      VALUES (@user_id, @subject, @topic, @date, @start_time, @end_time, @room, @ical_uid)
+      ON CONFLICT (user_id, ical_uid) DO UPDATE SET
+        subject = excluded.subject, topic = excluded.topic, date = excluded.date,
+        start_time = excluded.start_time, end_time = excluded.end_time, room = excluded.room
+    `);
+
+    let imported = 0;
+    let updated = 0;
+    let skipped = 0;
+    db.transaction(() => {
+      for (const event of events) {
+        // Entries from this app's own feed already exist here
+        if (event.uid.endsWith("@productivity-dashboard")) {
+          skipped++;
+          continue;
+        }
+        if (existing.get(req.user.id, event.uid)) updated++;
+        else imported++;
+        upsert.run({
+          user_id: req.user.id,
+          subject: event.summary,
+          topic: event.description?.split("\n")[0] || null,
+          date: event.date,
+          start_time: event.startTime,
+          end_time: event.endTime,
+          room: event.location,
+          ical_uid: event.uid,
+        });
+      }
+    })();
+    res.json({ imported, updated, skipped });
+  });
+
+  // Syllabus API
+  app.get("/api/syllabus", (req, res) => {
+    const units = db.prepare(
+      "SELECT * FROM syllabus_units WHERE user_id = ? ORDER BY subject COLLATE NOCASE, position, id"
+    ).all(req.user.id) as any[];
+    const topics = db.prepare(`
+      SELECT t.*, (SELECT group_concat(lecture_id) FROM lecture_topics WHERE topic_id = t.id) AS lecture_ids
+      FROM syllabus_topics t WHERE t.user_id = ? ORDER BY position, id
+    `).all(req.user.id) as any[];
+
+    const subjects: Record<string, any> = {};
+    for (const unit of units) {
+      const unitTopics = topics
+        .filter(topic => topic.unit_id === unit.id)
+        .map(topic => ({ ...topic, lecture_ids: topic.lecture_ids ? String(topic.lecture_ids).split(",").map(Number) : [] }));
+      const entry = subjects[unit.subject] ||= { subject: unit.subject, units: [], total: 0, covered: 0, revised: 0 };
+      entry.units.push({ ...unit, topics: unitTopics });
+      entry.total += unitTopics.length;
+      entry.covered += unitTopics.filter(topic => topic.covered_at).length;
+      entry.revised += unitTopics.filter(topic => topic.revised_at).length;
+    }
+    res.json(Object.values(subjects));
+  });
+
+  app.post("/api/syllabus/units", (req, res) => {
+    const { subject, title } = req.body;
+    if (!subject || !title) return res.status(400).json({ error: "Subject and title are required" });
+    const { next } = db.prepare(
+      "SELECT COALESCE(MAX(position), -1) + 1 AS next FROM syllabus_units WHERE subject = ? AND user_id = ?"
+    ).get(subject, req.user.id) as { next: number };
+    const info = db.prepare(
+      "INSERT INTO syllabus_units (user_id, subject, title, position) VALUES (?, ?, ?, ?)"
+    ).run(req.user.id, subject, title, next);
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/syllabus/units/:id", (req, res) => {
+    const { title } = req.body;
+    const info = db.prepare(
+      "UPDATE syllabus_units SET title = COALESCE(?, title) WHERE id = ? AND user_id = ?"
+    ).run(title, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Unit not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/syllabus/units/:id", (req, res) => {
+    if (!db.prepare("SELECT id FROM syllabus_units WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id)) {
+      return res.status(404).json({ error: "Unit not found" });
+    }
+    db.transaction(() => {
+      db.prepare("DELETE FROM lecture_topics WHERE topic_id IN (SELECT id FROM syllabus_topics WHERE unit_id = ?)").run(req.params.id);
+      db.prepare("DELETE FROM syllabus_topics WHERE unit_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM syllabus_units WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  app.post("/api/syllabus/units/:id/topics", (req, res) => {
+    const { title } = req.body;
+    if (!title) return res.status(400).json({ error: "Title is required" });
+    if (!db.prepare("SELECT id FROM syllabus_units WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id)) {
+      return res.status(404).json({ error: "Unit not found" });
+    }
+    const { next } = db.prepare("SELECT COALESCE(MAX(position), -1) + 1 AS next FROM syllabus_topics WHERE unit_id = ?").get(req.params.id) as { next: number };
+    const info = db.prepare(
+      "INSERT INTO syllabus_topics (user_id, unit_id, title, position) VALUES (?, ?, ?, ?)"
+    ).run(req.user.id, req.params.id, title, next);
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  // covered/revised are booleans; revising a topic implies it has been covered
+  app.patch("/api/syllabus/topics/:id", (req, res) => {
+    const topic = db.prepare("SELECT * FROM syllabus_topics WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as any;
+    if (!topic) return res.status(404).json({ error: "Topic not found" });
+    const { title = topic.title, covered, revised } = req.body;
+    const now = format(new Date(), "yyyy-MM-dd");
+
+    let coveredAt = covered === undefined ? topic.covered_at : covered ? topic.covered_at || now : null;
+    let revisedAt = revised === undefined ? topic.revised_at : revised ? topic.revised_at || now : null;
+    if (revisedAt && !coveredAt) coveredAt = now;
+    if (!coveredAt) revisedAt = null;
+
+    db.prepare("UPDATE syllabus_topics SET title = ?, covered_at = ?, revised_at = ? WHERE id = ?")
+      .run(title, coveredAt, revisedAt, req.params.id);
+    res.json({ success: true });
+  });
+
+  app.delete("/api/syllabus/topics/:id", (req, res) => {
+    if (!db.prepare("SELECT id FROM syllabus_topics WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id)) {
+      return res.status(404).json({ error: "Topic not found" });
+    }
+    db.transaction(() => {
+      db.prepare("DELETE FROM lecture_topics WHERE topic_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM syllabus_topics WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  // Timetable API
+  app.get("/api/timetable", (req, res) => {
+    const terms = db.prepare("SELECT * FROM terms WHERE user_id = ? ORDER BY start_date DESC").all(req.user.id);
+    const slots = db.prepare("SELECT * FROM timetable_slots WHERE user_id = ? ORDER BY day_of_week, start_time").all(req.user.id);
+    res.json({ terms, slots });
+  });
+
+  app.post("/api/timetable/terms", (req, res) => {
+    const { name, start_date, end_date } = req.body;
+    if (!name || !start_date || !end_date) return res.status(400).json({ error: "Name, start and end dates are required" });
+    if (start_date > end_date) return res.status(400).json({ error: "Term must end after it starts" });
+    const info = db.prepare(
+      "INSERT INTO terms (user_id, name, start_date, end_date) VALUES (?, ?, ?, ?)"
+    ).run(req.user.id, name, start_date, end_date);
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/timetable/terms/:id", (req, res) => {
+    const term = db.prepare("SELECT * FROM terms WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as any;
+    if (!term) return res.status(404).json({ error: "Term not found" });
+    const { name = term.name, start_date = term.start_date, end_date = term.end_date } = req.body;
+    if (start_date > end_date) return res.status(400).json({ error: "Term must end after it starts" });
+
+    db.transaction(() => {
+      db.prepare("UPDATE terms SET name = ?, start_date = ?, end_date = ? WHERE id = ?").run(name, start_date, end_date, req.params.id);
+      // Upcoming lectures that now fall outside the term are removed
+      const stale = `
+        SELECT id FROM lectures
+        WHERE slot_id IN (SELECT id FROM timetable_slots WHERE term_id = ?)
+          AND attendance_status IS NULL AND NOT completed AND date >= ? AND (date < ? OR date > ?)
+      `;
+      const params = [req.params.id, format(new Date(), "yyyy-MM-dd"), start_date, end_date];
+      db.prepare(`DELETE FROM lecture_topics WHERE lecture_id IN (${stale})`).run(...params);
+      db.prepare(`DELETE FROM lectures WHERE id IN (${stale})`).run(...params);
+    })();
+    materialiseLectures();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/timetable/terms/:id", (req, res) => {
+    if (!db.prepare("SELECT id FROM terms WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id)) {
+      return res.status(404).json({ error: "Term not found" });
+    }
+    db.transaction(() => {
+      const slots = db.prepare("SELECT id FROM timetable_slots WHERE term_id = ?").all(req.params.id) as { id: number }[];
+      slots.forEach(slot => clearUpcomingSlotLectures(slot.id));
+      db.prepare("DELETE FROM timetable_slots WHERE term_id = ?").run(req.params.id);
+      db.prepare("DELETE FROM terms WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  app.post("/api/timetable/slots", (req, res) => {
+    const { term_id, subject, day_of_week, start_time, end_time, room, lecturer } = req.body;
+    if (!subject || !db.prepare("SELECT id FROM terms WHERE id = ? AND user_id = ?").get(term_id, req.user.id)) {
+      return res.status(400).json({ error: "Subject and an existing term are required" });
+    }
+    if (!(Number(day_of_week) >= 0 && Number(day_of_week) <= 6)) return res.status(400).json({ error: "day_of_week must be 0 (Sunday) to 6" });
+    if (!TIME_PATTERN.test(start_time) || !TIME_PATTERN.test(end_time) || start_time >= end_time) {
+      return res.status(400).json({ error: "start_time and end_time must be HH:mm with start before end" });
+    }
+    const info = db.prepare(`
+      INSERT INTO timetable_slots (user_id, term_id, subject, day_of_week, start_time, end_time, room, lecturer)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(req.user.id, term_id, subject, Number(day_of_week), start_time, end_time, room || null, lecturer || null);
+    materialiseLectures();
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/timetable/slots/:id", (req, res) => {
+    const slot = db.prepare("SELECT * FROM timetable_slots WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id) as any;
+    if (!slot) return res.status(404).json({ error: "Slot not found" });
+    const next = { ...slot, ...req.body };
+    if (!(Number(next.day_of_week) >= 0 && Number(next.day_of_week) <= 6)) return res.status(400).json({ error: "day_of_week must be 0 (Sunday) to 6" });
+    if (!TIME_PATTERN.test(next.start_time) || !TIME_PATTERN.test(next.end_time) || next.start_time >= next.end_time) {
+      return res.status(400).json({ error: "start_time and end_time must be HH:mm with start before end" });
+    }
+
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE timetable_slots SET subject = ?, day_of_week = ?, start_time = ?, end_time = ?, room = ?, lecturer = ?
+        WHERE id = ?
+      `).run(next.subject, Number(next.day_of_week), next.start_time, next.end_time, next.room || null, next.lecturer || null, req.params.id);
+      clearUpcomingSlotLectures(req.params.id);
+    })();
+    materialiseLectures();
+    res.json({ success: true });
+  });
+
+  app.delete("/api/timetable/slots/:id", (req, res) => {
+    if (!db.prepare("SELECT id FROM timetable_slots WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id)) {
+      return res.status(404).json({ error: "Slot not found" });
+    }
+    db.transaction(() => {
+      clearUpcomingSlotLectures(req.params.id);
+      db.prepare("DELETE FROM timetable_slots WHERE id = ?").run(req.params.id);
+    })();
+    res.json({ success: true });
+  });
+
+  // Internship API
+  app.get("/api/internship", (req, res) => {
+    const logs = db.prepare("SELECT * FROM internship_logs WHERE user_id = ? ORDER BY date DESC, id DESC").all(req.user.id);
+    res.json(logs);
+  });
+
+  app.post("/api/internship", (req, res) => {
+    const { title, description, date, hours } = req.body;
+    if (!title || !date) return res.status(400).json({ error: "Title and date are required" });
+    const info = db.prepare(
+      "INSERT INTO internship_logs (user_id, title, description, date, hours) VALUES (?, ?, ?, ?, ?)"
+    ).run(req.user.id, title, description, date, Number(hours) || 0);
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/internship/:id", (req, res) => {
+    const { title, description, date, hours } = req.body;
+    const info = db.prepare(`
+      UPDATE internship_logs SET
+        title = COALESCE(?, title),
+        description = COALESCE(?, description),
+        date = COALESCE(?, date),
+        hours = COALESCE(?, hours)
+      WHERE id = ? AND user_id = ?
+    `).run(title ?? null, description ?? null, date ?? null, hours === undefined ? null : Number(hours) || 0, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Log not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/internship/:id", (req, res) => {
+    const info = db.prepare("DELETE FROM internship_logs WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Log not found" });
+    res.json({ success: true });
+  });
+
+  // Search API
+  app.get("/api/search", (req, res) => {
+    const query = toFtsQuery(String(req.query.q || ""));
+    const groups: Record<string, any[]> = { task: [], lecture: [], project: [], internship: [] };
+    if (!query) return res.json(groups);
+
+    // Highlight markers are control characters so the client can render matches without injecting HTML
+    const rows = db.prepare(`
+      SELECT kind, ref_id as id, title, snippet(search_index, 3, char(1), char(2), '…', 12) as snippet
+      FROM search_index
+      WHERE search_index MATCH @query AND ${SEARCH_OWNER_FILTER}
+      ORDER BY rank
+      LIMIT 100
+    `).all({ query, user_id: req.user.id }) as { kind: string, id: number, title: string, snippet: string }[];
+
+    for (const row of rows) {
+      if (groups[row.kind].length < 5) groups[row.kind].push({ id: row.id, title: row.title, snippet: row.snippet });
+    }
+    res.json(groups);
+  });
+
+  // Notifications API
+  app.get("/api/notifications", (req, res) => {
+    const notifications = db.prepare(
+      "SELECT * FROM notifications WHERE user_id = ? AND dismissed_at IS NULL ORDER BY created_at DESC, id DESC LIMIT 50"
+    ).all(req.user.id);
+    const { unread } = db.prepare(
+      "SELECT COUNT(*) as unread FROM notifications WHERE user_id = ? AND dismissed_at IS NULL AND read_at IS NULL"
+    ).get(req.user.id) as { unread: number };
+    res.json({ notifications, unread });
+  });
+
+  app.post("/api/notifications/read-all", (req, res) => {
+    db.prepare(
+      "UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL AND dismissed_at IS NULL"
+    ).run(req.user.id);
+    res.json({ success: true });
+  });
+
+  app.patch("/api/notifications/:id", (req, res) => {
+    const { read } = req.body;
+    const info = db.prepare(
+      "UPDATE notifications SET read_at = CASE WHEN ? THEN COALESCE(read_at, CURRENT_TIMESTAMP) ELSE NULL END WHERE id = ? AND user_id = ?"
+    ).run(read === false ? 0 : 1, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Notification not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/notifications/:id", (req, res) => {
+    const info = db.prepare("UPDATE notifications SET dismissed_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Notification not found" });
+    res.json({ success: true });
+  });
+
+  // Backup API
+  app.get("/api/export", (req, res) => {
+    res.setHeader("Content-Disposition", `attachment; filename="productivity-backup-${format(new Date(), "yyyy-MM-dd")}.json"`);
+    res.json(exportBundle(req.user.id));
+  });
+
+  app.get("/api/export/:table.csv", (req, res) => {
+    if (!BACKUP_TABLES.some(table => table.name === req.params.table)) return res.status(404).json({ error: "Unknown table" });
+    const columns = tableColumns(req.params.table).map(column => column.name).filter(name => name !== "user_id");
+    const rows = ownedRows(req.params.table, req.user.id);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${req.params.table}.csv"`);
+    res.send(toCsv(columns, rows));
+  });
+
+  app.post("/api/import", express.json({ limit: "25mb" }), (req, res) => {
+    const mode = req.query.mode === "replace" ? "replace" : "merge";
+    const problem = validateBundle(req.body);
+    if (problem) return res.status(400).json({ error: problem });
+    try {
+      const tables = importBundle(req.body, mode, req.user.id);
+      materialiseLectures();
+      res.json({ mode, tables });
+    } catch (error: any) {
+      res.status(400).json({ error: `Import failed, nothing was changed: ${error.message}` });
+    }
+  });
+
+  // Settings API
+  app.get("/api/settings", (req, res) => {
+    const rows = db.prepare("SELECT key, value FROM settings WHERE user_id = ?").all(req.user.id) as { key: string, value: string }[];
+    res.json(Object.fromEntries(rows.map(r => [r.key, r.value])));
+  });
+
+  app.patch("/api/settings", (req, res) => {
+    const upsert = db.prepare(
+      "INSERT INTO settings (user_id, key, value) VALUES (?, ?, ?) ON CONFLICT(user_id, key) DO UPDATE SET value = excluded.value"
+    );
+    db.transaction((entries: [string, unknown][]) => {
+      for (const [key, value] of entries) upsert.run(req.user.id, key, String(value));
+    })(Object.entries(req.body));
     res.json({ success: true });
   });
 
   // Projects API
   app.get("/api/projects", (req, res) => {
-    const projects = db.prepare("SELECT * FROM projects").all();
-    res.json(projects);
+    const projects = db.prepare(
+      `SELECT *, ${trackedMinutes("project_id", "projects")} FROM projects WHERE user_id = ? ORDER BY status = 'archived', id DESC`
+    ).all(req.user.id) as any[];
+    const milestones = db.prepare(
+      "SELECT * FROM project_milestones WHERE user_id = ? ORDER BY due_date IS NULL, due_date, id"
+    ).all(req.user.id) as any[];
+    res.json(projects.map(p => ({
+      ...p,
+      milestones: milestones.filter(m => m.project_id === p.id)
+    })));
+  });
+
+  app.post("/api/projects", (req, res) => {
+    const { name, description, progress, status } = req.body;
+    if (!name) return res.status(400).json({ error: "Name is required" });
+    const info = db.prepare(
+      "INSERT INTO projects (user_id, name, description, progress, status) VALUES (?, ?, ?, ?, ?)"
+    ).run(req.user.id, name, description, clampProgress(progress ?? 0), status || "active");
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/projects/:id", (req, res) => {
+    const { name, description, progress, status } = req.body;
+    const info = db.prepare(`
+      UPDATE projects SET
+        name = COALESCE(?, name),
+        description = COALESCE(?, description),
+        progress = COALESCE(?, progress),
+        status = COALESCE(?, status)
+      WHERE id = ? AND user_id = ?
+    `).run(name ?? null, description ?? null, progress === undefined ? null : clampProgress(progress), status ?? null, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Project not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/projects/:id", (req, res) => {
+    const info = db.transaction(() => {
+      db.prepare("DELETE FROM project_milestones WHERE project_id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      db.prepare("UPDATE focus_sessions SET project_id = NULL WHERE project_id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      db.prepare("UPDATE focus_timers SET project_id = NULL WHERE project_id = ? AND user_id = ?").run(req.params.id, req.user.id);
+      return db.prepare("DELETE FROM projects WHERE id = ? AND user_id = ?").run(req.params.id, req.user.id);
+    })();
+    if (info.changes === 0) return res.status(404).json({ error: "Project not found" });
+    res.json({ success: true });
+  });
+
+  app.post("/api/projects/:id/milestones", (req, res) => {
+    const { title, due_date } = req.body;
+    if (!title) return res.status(400).json({ error: "Title is required" });
+    const project = db.prepare("SELECT id FROM projects WHERE id = ? AND user_id = ?").get(req.params.id, req.user.id);
+    if (!project) return res.status(404).json({ error: "Project not found" });
+    const info = db.prepare(
+      "INSERT INTO project_milestones (user_id, project_id, title, due_date) VALUES (?, ?, ?, ?)"
+    ).run(req.user.id, req.params.id, title, due_date || null);
+    res.json({ id: info.lastInsertRowid });
+  });
+
+  app.patch("/api/projects/:id/milestones/:milestoneId", (req, res) => {
+    const { title, due_date, completed } = req.body;
+    const info = db.prepare(`
+      UPDATE project_milestones SET
+        title = COALESCE(?, title),
+        due_date = COALESCE(?, due_date),
+        completed = COALESCE(?, completed)
+      WHERE id = ? AND project_id = ? AND user_id = ?
+    `).run(title ?? null, due_date ?? null, completed === undefined ? null : (completed ? 1 : 0), req.params.milestoneId, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Milestone not found" });
+    res.json({ success: true });
+  });
+
+  app.delete("/api/projects/:id/milestones/:milestoneId", (req, res) => {
+    const info = db.prepare(
+      "DELETE FROM project_milestones WHERE id = ? AND project_id = ? AND user_id = ?"
+    ).run(req.params.milestoneId, req.params.id, req.user.id);
+    if (info.changes === 0) return res.status(404).json({ error: "Milestone not found" });
+    res.json({ success: true });
   });
 
   // Analytics API
   app.get("/api/analytics", (req, res) => {
-    const taskStats = db.prepare("SELECT status, COUNT(*) as count FROM tasks GROUP BY status").all();
-    const focusStats = db.prepare("SELECT date(date) as day, SUM(duration) as total_duration FROM focus_sessions GROUP BY day LIMIT 7").all();
-    res.json({ taskStats, focusStats });
+    const today = new Date();
+    const from = req.query.from ? parseISO(String(req.query.from)) : subDays(today, 29);
+    const to = req.query.to ? parseISO(String(req.query.to)) : today;
+    const granularity = (req.query.granularity || "day") as Granularity;
+
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return res.status(400).json({ error: "from and to must be valid dates (YYYY-MM-DD) with from <= to" });
+    }
+    if (!["day", "week", "month"].includes(granularity)) {
+      return res.status(400).json({ error: "granularity must be one of day, week, month" });
+    }
+    if (bucketCount(from, to, granularity) > MAX_ANALYTICS_BUCKETS) {
+      return res.status(400).json({ error: `That range has more than ${MAX_ANALYTICS_BUCKETS} ${granularity}s; pick a shorter range or a coarser granularity` });
+    }
+
+    const { series, totals } = buildAnalytics(req.user.id, from, to, granularity);
+    const taskStats = db.prepare("SELECT status, COUNT(*) as count FROM tasks WHERE user_id = ? GROUP BY status").all(req.user.id);
+    // Work minutes per project; sessions without a project (including task-only ones) share a null row
+    const focusByProject = db.prepare(`
+      SELECT focus_sessions.project_id, projects.name, SUM(focus_sessions.duration) AS minutes
+      FROM focus_sessions LEFT JOIN projects ON projects.id = focus_sessions.project_id
+      WHERE focus_sessions.user_id = ? AND focus_sessions.type = 'work' AND date(focus_sessions.date) BETWEEN ? AND ?
+      GROUP BY focus_sessions.project_id
+      ORDER BY minutes DESC
+    `).all(req.user.id, format(from, "yyyy-MM-dd"), format(to, "yyyy-MM-dd"));
+    res.json({ from: format(from, "yyyy-MM-dd"), to: format(to, "yyyy-MM-dd"), granularity, series, totals, taskStats, focusByProject });
+  });
+
+  // Dashboard API
+  app.get("/api/dashboard/summary", (req, res) => {
+    const today = new Date();
+    const weekStart = subDays(today, 6);
+    const prevWeekStart = subDays(today, 13);
+    const prevWeekEnd = subDays(today, 7);
+
+    const thisWeek = buildAnalytics(req.user.id, weekStart, today, "day");
+    const lastWeek = buildAnalytics(req.user.id, prevWeekStart, prevWeekEnd, "day");
+
+    const series = thisWeek.series.map(b => ({
+      date: b.bucket,
+      name: format(parseISO(b.bucket), "EEE"),
+      tasks: b.tasksCompleted,
+      hours: Math.round((b.focusMinutes / 60) * 10) / 10,
+    }));
+
+    // Task counts now and as they stood at the end of the previous week
+    const cutoff = format(prevWeekEnd, "yyyy-MM-dd");
+    const counts = db.prepare(`
+      SELECT
+        COUNT(*) as total_now,
+        SUM(date(created_at) <= ?) as total_week_ago,
+        SUM(status != 'done') as pending_now,
+        SUM(date(created_at) <= ? AND (status != 'done' OR date(COALESCE(completed_at, created_at)) > ?)) as pending_week_ago
+      FROM tasks WHERE user_id = ?
+    `).get(cutoff, cutoff, cutoff, req.user.id) as Record<string, number | null>;
+
+    res.json({
+      series,
+      trends: {
+        totalTasks: percentChange(counts.total_now || 0, counts.total_week_ago || 0),
+        pendingTasks: percentChange(counts.pending_now || 0, counts.pending_week_ago || 0),
+        completedTasks: percentChange(thisWeek.totals.tasksCompleted, lastWeek.totals.tasksCompleted),
+        attendance: percentChange(thisWeek.totals.attendanceRate, lastWeek.totals.attendanceRate),
+      },
+    });
   });
 
   // Focus Sessions API
   app.post("/api/focus", (req, res) => {
-    const { duration, type } = req.body;
-    db.prepare("INSERT INTO focus_sessions (duration, type) VALUES (?, ?)").run(duration, type);
+    const result = logFocusSession(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
     res.json({ success: true });
   });
 
+  // Time logged by hand: { duration, date?, task_id?, project_id?, note? }
+  app.post("/api/focus/manual", (req, res) => {
+    const result = logFocusSession(req.user.id, req.body, true);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  // Active focus session. Every route answers with the timer as it now stands.
+  app.get("/api/focus/active", (req, res) => {
+    res.json(currentFocusTimer(req.user.id));
+  });
+
+  // { phase?, task_id?, project_id? }
+  app.patch("/api/focus/active", (req, res) => {
+    const result = updateFocusTimer(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  // { phase?, task_id?, project_id?, plan_block_id? }
+  app.post("/api/focus/active/start", (req, res) => {
+    const result = startFocusSession(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  app.post("/api/focus/active/pause", (req, res) => {
+    const result = pauseFocusSession(req.user.id);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  app.post("/api/focus/active/resume", (req, res) => {
+    const result = resumeFocusSession(req.user.id);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
+  // { discard? }
+  app.post("/api/focus/active/stop", (req, res) => {
+    const result = stopFocusSession(req.user.id, req.body);
+    if ("error" in result) return res.status(result.status).json({ error: result.error });
+    res.json(result);
+  });
+
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
     const vite = await createViteServer({
@@ -153,8 +2726,19 @@ async function startServer() {
     });
   }
 
+  materialiseLectures();
+  setInterval(materialiseLectures, 60 * 60 * 1000);
+  runReminderScheduler();
+  setInterval(runReminderScheduler, 60 * 1000);
+  completeExpiredFocusTimers();
+  setInterval(completeExpiredFocusTimers, 30 * 1000);
+
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    const aiUnavailable = assistantProvider.unavailableReason();
+    console.log(aiUnavailable
+      ? `AI assistant unavailable: ${aiUnavailable}`
+      : `AI assistant using ${assistantProvider.name} (${assistantProvider.model})`);
   });
 }
 
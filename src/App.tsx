@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { 
   LayoutDashboard, 
   CheckSquare, 
@@ -19,9 +19,37 @@ import {
   Calendar,
   AlertCircle,
   TrendingUp,
-  Award
+  Award,
+  Pencil,
+  Trash2,
+  Target,
+  Flag,
+  Archive,
+  X,
+  ListChecks,
+  ChevronUp,
+  ChevronDown,
+  Repeat,
+  Loader2,
+  BellRing,
+  CheckCheck,
+  MapPin,
+  Upload,
+  Download,
+  Settings,
+  Database,
+  LogOut,
+  Copy,
+  Sparkles,
+  Play,
+  Pause,
+  SkipForward,
+  SlidersHorizontal,
+  Volume2,
+  VolumeX
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
+import ReactMarkdown from 'react-markdown';
 import { 
   LineChart, 
   Line, 
@@ -34,12 +62,40 @@ import {
   Area,
   PieChart,
   Pie,
-  Cell
+  Cell,
+  BarChart,
+  Bar,
+  Legend
 } from 'recharts';
+import { addHours, format, isBefore, parseISO, startOfToday, startOfWeek, subDays } from 'date-fns';
 import { cn } from './lib/utils';
+import { isDueSoon, isOverdue } from './lib/dueDates';
+import { WEEKDAY_LABELS, describeRecurrence, formatRRule, parseRRule, type RecurrenceRule } from './lib/recurrence';
+import { fetchJson, onUnauthorized } from './lib/api';
+import { readEventStream } from './lib/sse';
+import {
+  PHASE_LABELS,
+  POMODORO_SETTINGS,
+  phaseMinutes,
+  pomodoroConfig,
+  sessionElapsedMs,
+  sessionRemainingMs,
+  validatePomodoroConfig,
+  type PomodoroConfig,
+  type PomodoroPhase
+} from './lib/pomodoro';
 
 // --- Types ---
-type View = 'dashboard' | 'tasks' | 'lectures' | 'internship' | 'projects' | 'analytics' | 'focus' | 'ai';
+type View = 'dashboard' | 'tasks' | 'lectures' | 'internship' | 'projects' | 'analytics' | 'focus' | 'ai' | 'settings';
+
+interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string | null;
+  calendar_token: string;
+  created_at: string;
+}
 
 interface Task {
   id: number;
@@ -48,6 +104,20 @@ interface Task {
   priority: 'low' | 'medium' | 'high';
   status: 'todo' | 'in-progress' | 'done';
   due_date: string;
+  position?: number;
+  auto_complete?: number;
+  recurrence?: string | null;
+  next_occurrence_id?: number | null;
+  subtasks?: Subtask[];
+  tracked_minutes?: number;
+}
+
+interface Subtask {
+  id: number;
+  task_id: number;
+  title: string;
+  completed: number;
+  position: number;
 }
 
 interface Lecture {
@@ -57,6 +127,222 @@ interface Lecture {
   attendance_status: string;
   date: string;
   completed: boolean;
+  start_time?: string | null;
+  end_time?: string | null;
+  room?: string | null;
+  lecturer?: string | null;
+  slot_id?: number | null;
+  topic_ids?: number[];
+}
+
+interface SyllabusTopic {
+  id: number;
+  unit_id: number;
+  title: string;
+  covered_at: string | null;
+  revised_at: string | null;
+  lecture_ids: number[];
+}
+
+interface SyllabusUnit {
+  id: number;
+  subject: string;
+  title: string;
+  topics: SyllabusTopic[];
+}
+
+interface SubjectSyllabus {
+  subject: string;
+  units: SyllabusUnit[];
+  total: number;
+  covered: number;
+  revised: number;
+}
+
+interface Term {
+  id: number;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface TimetableSlot {
+  id: number;
+  term_id: number;
+  subject: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  room: string | null;
+  lecturer: string | null;
+}
+
+interface SubjectAttendance {
+  subject: string;
+  present: number;
+  absent: number;
+  held: number;
+  upcoming: number;
+  percent: number | null;
+  canMiss: number;
+  mustAttend: number | null;
+  belowThreshold: boolean;
+  recoverable: boolean;
+}
+
+interface InternshipLog {
+  id: number;
+  title: string;
+  description: string;
+  date: string;
+  hours: number;
+}
+
+interface Milestone {
+  id: number;
+  project_id: number;
+  title: string;
+  due_date: string | null;
+  completed: number;
+}
+
+interface Project {
+  id: number;
+  name: string;
+  description: string;
+  progress: number;
+  status: 'active' | 'on-hold' | 'completed' | 'archived';
+  milestones: Milestone[];
+  tracked_minutes?: number;
+}
+
+interface AnalyticsBucket {
+  bucket: string;
+  focusMinutes: number;
+  tasksCompleted: number;
+  attendanceRate: number | null;
+  internshipHours: number;
+}
+
+interface AnalyticsData {
+  from: string;
+  to: string;
+  granularity: 'day' | 'week' | 'month';
+  series: AnalyticsBucket[];
+  totals: Omit<AnalyticsBucket, 'bucket'>;
+  taskStats: { status: string, count: number }[];
+  focusByProject: { project_id: number | null, name: string | null, minutes: number }[];
+}
+
+// What a work session was spent on, encoded for a <select> as "task:12" or "project:3"
+type FocusLink = string;
+
+type SearchKind = 'task' | 'lecture' | 'project' | 'internship';
+
+interface SearchHit {
+  id: number;
+  title: string;
+  snippet: string;
+}
+
+interface AppNotification {
+  id: number;
+  type: 'task-overdue' | 'task-due-soon' | 'lecture-soon' | 'attendance-unmarked';
+  title: string;
+  body: string | null;
+  ref_kind: 'task' | 'lecture' | null;
+  ref_id: number | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+// Counts of what the server included in the assistant's context for one reply
+interface AssistantShared {
+  tasks: { included: number, total: number };
+  lectures: number;
+  attendanceSubjects: number;
+  focusMinutes: number;
+  projects: { included: number, total: number };
+}
+
+// A change the assistant made (or proposed, while pending confirmation)
+interface AssistantAction {
+  id?: number;
+  tool: string;
+  area: 'tasks' | 'lectures' | 'focus';
+  summary: string;
+  status: 'done' | 'failed' | 'pending' | 'cancelled';
+  error?: string | null;
+}
+
+interface AssistantMessage {
+  id?: number;
+  role: 'user' | 'ai';
+  text: string;
+  shared?: AssistantShared | null;
+  actions?: AssistantAction[];
+}
+
+interface AssistantStatus {
+  available: boolean;
+  provider: string;
+  model: string;
+  reason: string | null;
+}
+
+interface AssistantConversation {
+  id: number;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PlanBlock {
+  id: number;
+  date: string;
+  start_time: string;
+  end_time: string;
+  task_id: number | null;
+  title: string;
+  done: number;
+}
+
+// The Pomodoro timer as kept on the server; started_at is set while a session is in progress.
+// `offset` is added on arrival: the server's clock minus this browser's, in milliseconds.
+interface FocusTimer {
+  phase: PomodoroPhase;
+  completed_work: number;
+  duration_ms: number | null;
+  started_at: number | null;
+  paused_at: number | null;
+  paused_ms: number;
+  task_id: number | null;
+  project_id: number | null;
+  plan_block_id: number | null;
+  completed_phase: PomodoroPhase | null;
+  completed_minutes: number | null;
+  completed_at: number | null;
+  now: number;
+  offset: number;
+}
+
+type FocusAction = 'start' | 'pause' | 'resume' | 'stop';
+
+interface PlanDraft {
+  date: string;
+  summary: string | null;
+  blocks: Pick<PlanBlock, 'task_id' | 'title' | 'start_time' | 'end_time'>[];
+  notes: string[];
+}
+
+interface DashboardSummary {
+  series: { date: string, name: string, tasks: number, hours: number }[];
+  trends: {
+    totalTasks: number | null;
+    pendingTasks: number | null;
+    completedTasks: number | null;
+    attendance: number | null;
+  };
 }
 
 // --- Components ---
@@ -109,14 +395,14 @@ const Card = ({ children, className, title, subtitle, icon: Icon }: any) => (
   </div>
 );
 
-const StatCard = ({ label, value, trend, icon: Icon, color }: any) => (
+const StatCard = ({ label, value, trend, lowerIsBetter, icon: Icon, color }: any) => (
   <Card className="relative overflow-hidden group">
     <div className="flex items-start justify-between">
       <div>
         <p className="text-xs font-medium text-zinc-500 uppercase tracking-wider mb-1">{label}</p>
         <h2 className="text-2xl font-bold font-display">{value}</h2>
-        {trend && (
-          <p className={cn("text-xs mt-2 flex items-center gap-1", trend > 0 ? "text-emerald-500" : "text-rose-500")}>
+        {!!trend && (
+          <p className={cn("text-xs mt-2 flex items-center gap-1", (trend > 0) !== !!lowerIsBetter ? "text-emerald-500" : "text-rose-500")}>
             <TrendingUp size={12} className={trend < 0 ? "rotate-180" : ""} />
             {Math.abs(trend)}% from last week
           </p>
@@ -130,9 +416,514 @@ const StatCard = ({ label, value, trend, icon: Icon, color }: any) => (
   </Card>
 );
 
+const SubtaskProgress = ({ subtasks }: { subtasks?: Subtask[] }) => {
+  if (!subtasks?.length) return null;
+  const done = subtasks.filter(st => st.completed).length;
+  return (
+    <div className={cn("flex items-center gap-1.5", done === subtasks.length ? "text-emerald-500" : "text-zinc-500")}>
+      <ListChecks size={12} />
+      <span className="text-[10px] tabular-nums">{done}/{subtasks.length} done</span>
+      <div className="w-10 h-1 bg-zinc-800 rounded-full overflow-hidden">
+        <div className="h-full bg-current rounded-full" style={{ width: `${(done / subtasks.length) * 100}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const RecurrenceBadge = ({ recurrence }: { recurrence?: string | null }) => {
+  const rule = parseRRule(recurrence);
+  if (!rule) return null;
+  return (
+    <span className="flex items-center gap-1 text-[10px] text-zinc-500" title={describeRecurrence(rule)}>
+      <Repeat size={10} />
+      <span className="truncate max-w-[120px]">{describeRecurrence(rule)}</span>
+    </span>
+  );
+};
+
+const formatTracked = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+const TrackedTime = ({ minutes }: { minutes?: number }) => {
+  if (!minutes) return null;
+  return (
+    <span className="flex items-center gap-1 text-[10px] text-zinc-500 tabular-nums" title="Focus time tracked">
+      <Timer size={10} />
+      <span>{formatTracked(minutes)}</span>
+    </span>
+  );
+};
+
+const FocusLinkSelect = ({
+  tasks,
+  projects,
+  value,
+  onChange,
+  className
+}: {
+  tasks: Task[],
+  projects: Project[],
+  value: FocusLink,
+  onChange: (value: FocusLink) => void,
+  className?: string
+}) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    className={cn("bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2 text-sm focus:outline-none", className)}
+  >
+    <option value="">Not linked</option>
+    <optgroup label="Tasks">
+      {tasks.filter(task => task.status !== 'done').map(task => <option key={task.id} value={`task:${task.id}`}>{task.title}</option>)}
+    </optgroup>
+    <optgroup label="Projects">
+      {projects.filter(project => project.status === 'active').map(project => <option key={project.id} value={`project:${project.id}`}>{project.name}</option>)}
+    </optgroup>
+  </select>
+);
+
+const focusLinkFields = (link: FocusLink) => {
+  const [kind, id] = link.split(':');
+  return kind === 'task' ? { task_id: Number(id) } : kind === 'project' ? { project_id: Number(id) } : {};
+};
+
+const focusTimerLink = (timer: FocusTimer | null): FocusLink =>
+  timer?.task_id ? `task:${timer.task_id}` : timer?.project_id ? `project:${timer.project_id}` : '';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const RecurrenceEditor = ({ value, onChange }: { value: string | null, onChange: (rrule: string | null) => void }) => {
+  const rule = parseRRule(value);
+  const mode = !rule ? 'none' : rule.freq === 'daily' && rule.interval > 1 ? 'interval' : rule.freq;
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    const base: RecurrenceRule = rule || { freq: 'daily', interval: 1, byDay: [], until: null };
+    onChange(formatRRule({ ...base, ...changes }));
+  };
+
+  const setMode = (next: string) => {
+    if (next === 'none') return onChange(null);
+    if (next === 'interval') return update({ freq: 'daily', interval: Math.max(rule?.interval || 2, 2), byDay: [] });
+    update({ freq: next as RecurrenceRule['freq'], interval: 1, byDay: next === 'weekly' ? [new Date().getDay()] : [] });
+  };
+
+  const toggleDay = (day: number) => {
+    if (!rule) return;
+    const byDay = rule.byDay.includes(day) ? rule.byDay.filter(d => d !== day) : [...rule.byDay, day].sort();
+    if (byDay.length > 0) update({ byDay });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Repeat</label>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value)}
+            className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+          >
+            <option value="none">Does not repeat</option>
+            <option value="daily">Daily</option>
+            <option value="interval">Every N days</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        {rule && (
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Ends</label>
+            <input
+              type="date"
+              value={rule.until || ''}
+              onChange={(e) => update({ until: e.target.value || null })}
+              className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all appearance-none"
+            />
+          </div>
+        )}
+      </div>
+      {mode === 'interval' && rule && (
+        <div className="flex items-center gap-2 text-sm text-zinc-400">
+          <span>Every</span>
+          <input
+            type="number"
+            min={2}
+            value={rule.interval}
+            onChange={(e) => update({ interval: Math.max(Number(e.target.value) || 2, 2) })}
+            className="w-20 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1.5 text-sm focus:outline-none"
+          />
+          <span>days</span>
+        </div>
+      )}
+      {mode === 'weekly' && rule && (
+        <div className="flex gap-1.5">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={cn(
+                "flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors",
+                rule.byDay.includes(day) ? "bg-brand-primary text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Search snippets mark matches with \u0001 ... \u0002 instead of HTML
+const Highlighted = ({ text }: { text: string }) => (
+  <>
+    {text.split('\u0001').map((part, i) => {
+      if (i === 0) return <React.Fragment key={i}>{part}</React.Fragment>;
+      const [match, rest] = part.split('\u0002');
+      return (
+        <React.Fragment key={i}>
+          <mark className="bg-brand-primary/20 text-brand-primary rounded px-0.5">{match}</mark>
+          {rest}
+        </React.Fragment>
+      );
+    })}
+  </>
+);
+
+const SEARCH_GROUPS: { kind: SearchKind, label: string, view: View, icon: any }[] = [
+  { kind: 'task', label: 'Tasks', view: 'tasks', icon: CheckSquare },
+  { kind: 'lecture', label: 'Lectures', view: 'lectures', icon: BookOpen },
+  { kind: 'project', label: 'Projects', view: 'projects', icon: FolderKanban },
+  { kind: 'internship', label: 'Internship', view: 'internship', icon: Briefcase },
+];
+
+const GlobalSearch = ({ onNavigate }: { onNavigate: (view: View, kind: SearchKind, id: number) => void }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Record<SearchKind, SearchHit[]> | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Ctrl/Cmd + K focuses the search box from anywhere
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`, { signal: controller.signal });
+        setResults(await res.json());
+        setActiveIndex(0);
+      } catch (error: any) {
+        if (error.name !== 'AbortError') console.error("Search error:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    }, 200);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  const flatResults = SEARCH_GROUPS.flatMap(group =>
+    (results?.[group.kind] || []).map(hit => ({ ...hit, group }))
+  );
+
+  const select = (index: number) => {
+    const hit = flatResults[index];
+    if (!hit) return;
+    onNavigate(hit.group.view, hit.group.kind, hit.id);
+    setIsOpen(false);
+    setQuery('');
+    inputRef.current?.blur();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, flatResults.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(activeIndex);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 group-focus-within:text-brand-primary transition-colors" size={18} />
+      <input 
+        ref={inputRef}
+        type="text" 
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search anything..." 
+        className="w-full bg-zinc-900/50 border border-zinc-800 rounded-xl py-2 pl-10 pr-4 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary/50 transition-all"
+      />
+      {isLoading && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 text-zinc-500 animate-spin" size={16} />}
+      {isOpen && results && (
+        <div className="absolute top-full mt-2 w-full glass-card rounded-xl shadow-2xl py-2 max-h-[60vh] overflow-y-auto custom-scrollbar z-50">
+          {flatResults.length === 0 && <p className="px-4 py-3 text-sm text-zinc-500">No matches for "{query}".</p>}
+          {SEARCH_GROUPS.filter(group => results[group.kind]?.length).map(group => (
+            <div key={group.kind} className="py-1">
+              <p className="px-4 py-1 text-[10px] font-bold uppercase tracking-wider text-zinc-500">{group.label}</p>
+              {results[group.kind].map(hit => {
+                const index = flatResults.findIndex(r => r.group.kind === group.kind && r.id === hit.id);
+                return (
+                  <button
+                    key={hit.id}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => select(index)}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    className={cn(
+                      "w-full flex items-start gap-3 px-4 py-2 text-left transition-colors",
+                      index === activeIndex ? "bg-zinc-800/70" : "hover:bg-zinc-800/40"
+                    )}
+                  >
+                    <group.icon size={16} className="mt-0.5 shrink-0 text-zinc-500" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{hit.title}</p>
+                      {hit.snippet && <p className="text-xs text-zinc-500 truncate"><Highlighted text={hit.snippet} /></p>}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The session in progress, shown in the header whichever view is open. It also notices when the
+// session's time is up and asks the server to complete it.
+const HeaderFocusTimer = ({
+  timer,
+  onOpen,
+  onAction,
+  onExpired
+}: {
+  timer: FocusTimer | null,
+  onOpen: () => void,
+  onAction: (action: FocusAction) => void,
+  onExpired: () => void
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+  const expiredSession = useRef<number | null>(null);
+  const active = timer?.started_at != null;
+  const running = active && timer.paused_at === null;
+  const remaining = active ? sessionRemainingMs(timer, now + timer.offset) : 0;
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running, timer?.started_at, timer?.paused_ms]);
+
+  useEffect(() => {
+    if (running && remaining <= 0 && expiredSession.current !== timer.started_at) {
+      expiredSession.current = timer.started_at;
+      onExpired();
+    }
+  }, [running, remaining <= 0]);
+
+  if (!active) return null;
+
+  return (
+    <div className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl bg-zinc-900/60 border border-zinc-800">
+      <button onClick={onOpen} className="flex items-center gap-2 text-sm" title="Open Focus Mode">
+        <span className={cn("w-2 h-2 rounded-full", timer.phase === 'work' ? "bg-brand-primary" : "bg-emerald-500", running && "animate-pulse")} />
+        <span className="font-semibold tabular-nums">{formatCountdown(remaining)}</span>
+        <span className="text-xs text-zinc-500 hidden lg:inline">{running ? PHASE_LABELS[timer.phase] : 'Paused'}</span>
+      </button>
+      <button
+        onClick={() => onAction(running ? 'pause' : 'resume')}
+        className="p-1.5 rounded-lg text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 transition-colors"
+        title={running ? "Pause" : "Resume"}
+      >
+        {running ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+    </div>
+  );
+};
+
+const NOTIFICATION_STYLES: Record<AppNotification['type'], string> = {
+  'task-overdue': "bg-rose-500/10 text-rose-500",
+  'task-due-soon': "bg-amber-500/10 text-amber-500",
+  'lecture-soon': "bg-brand-primary/10 text-brand-primary",
+  'attendance-unmarked': "bg-zinc-800 text-zinc-400",
+};
+
+const NotificationCenter = ({ onNavigate }: { onNavigate: (view: View, kind: SearchKind, id: number) => void }) => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [desktopAlerts, setDesktopAlerts] = useState(
+    () => typeof Notification !== 'undefined' && Notification.permission === 'granted' && localStorage.getItem('desktopAlerts') === 'on'
+  );
+  const seenIds = useRef<Set<number> | null>(null);
+
+  const fetchNotifications = async () => {
+    try {
+      const data = await fetchJson<{ notifications: AppNotification[], unread: number }>('/api/notifications');
+      if (!data) return;
+      setNotifications(data.notifications);
+      setUnread(data.unread);
+
+      // Only reminders that arrive after the first load are shown as desktop alerts
+      if (seenIds.current && desktopAlerts) {
+        data.notifications
+          .filter(n => !n.read_at && !seenIds.current!.has(n.id))
+          .forEach(n => new Notification(n.title, { body: n.body || undefined, tag: `productivity-${n.id}` }));
+      }
+      seenIds.current = new Set(data.notifications.map(n => n.id));
+    } catch (error) {
+      console.error("Notifications error:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications();
+    const interval = setInterval(fetchNotifications, 60 * 1000);
+    return () => clearInterval(interval);
+  }, [desktopAlerts]);
+
+  const toggleDesktopAlerts = async () => {
+    if (desktopAlerts) {
+      localStorage.setItem('desktopAlerts', 'off');
+      setDesktopAlerts(false);
+      return;
+    }
+    if (typeof Notification === 'undefined') return;
+    const permission = await Notification.requestPermission();
+    localStorage.setItem('desktopAlerts', permission === 'granted' ? 'on' : 'off');
+    setDesktopAlerts(permission === 'granted');
+  };
+
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read_at) return;
+    await fetch(`/api/notifications/${notification.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ read: true })
+    });
+    setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n));
+    setUnread(prev => Math.max(prev - 1, 0));
+  };
+
+  const markAllRead = async () => {
+    await fetch('/api/notifications/read-all', { method: 'POST' });
+    setNotifications(prev => prev.map(n => ({ ...n, read_at: n.read_at || new Date().toISOString() })));
+    setUnread(0);
+  };
+
+  const dismiss = async (notification: AppNotification) => {
+    await fetch(`/api/notifications/${notification.id}`, { method: 'DELETE' });
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    if (!notification.read_at) setUnread(prev => Math.max(prev - 1, 0));
+  };
+
+  const open = (notification: AppNotification) => {
+    markRead(notification);
+    if (notification.ref_kind === 'task' && notification.ref_id) onNavigate('tasks', 'task', notification.ref_id);
+    if (notification.ref_kind === 'lecture' && notification.ref_id) onNavigate('lectures', 'lecture', notification.ref_id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="p-2 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded-lg relative">
+        <Bell size={20} />
+        {unread > 0 && <span className="absolute top-2 right-2 w-2 h-2 bg-brand-primary rounded-full border-2 border-bg-dark" />}
+      </button>
+      <AnimatePresence>
+        {isOpen && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+            <motion.div
+              initial={{ opacity: 0, y: -8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              className="absolute right-0 top-full mt-2 w-96 glass-card rounded-xl shadow-2xl z-50 overflow-hidden"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-zinc-800">
+                <p className="text-sm font-semibold">Notifications {unread > 0 && <span className="text-zinc-500 font-normal">· {unread} unread</span>}</p>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={toggleDesktopAlerts}
+                    className={cn("p-1.5 rounded-lg transition-colors", desktopAlerts ? "text-brand-primary" : "text-zinc-500 hover:text-zinc-200")}
+                    title={desktopAlerts ? "Turn off desktop alerts" : "Turn on desktop alerts"}
+                  >
+                    <BellRing size={16} />
+                  </button>
+                  <button onClick={markAllRead} disabled={unread === 0} className="p-1.5 rounded-lg text-zinc-500 hover:text-zinc-200 disabled:opacity-30" title="Mark all as read">
+                    <CheckCheck size={16} />
+                  </button>
+                </div>
+              </div>
+              <div className="max-h-[60vh] overflow-y-auto custom-scrollbar divide-y divide-zinc-800/50">
+                {notifications.length === 0 && <p className="px-4 py-8 text-sm text-zinc-500 text-center">You're all caught up.</p>}
+                {notifications.map(notification => (
+                  <div key={notification.id} className={cn("flex items-start gap-3 px-4 py-3 group", !notification.read_at && "bg-zinc-800/30")}>
+                    <span className={cn("mt-0.5 p-1.5 rounded-lg shrink-0", NOTIFICATION_STYLES[notification.type])}>
+                      {notification.ref_kind === 'lecture' ? <BookOpen size={14} /> : <AlertCircle size={14} />}
+                    </span>
+                    <button onClick={() => open(notification)} className="flex-1 min-w-0 text-left">
+                      <p className={cn("text-sm truncate", !notification.read_at && "font-semibold")}>{notification.title}</p>
+                      {notification.body && <p className="text-xs text-zinc-500 truncate">{notification.body}</p>}
+                    </button>
+                    <button onClick={() => dismiss(notification)} className="p-1 text-zinc-600 hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity" title="Dismiss">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
 // --- Main App ---
 
 export default function App() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
   const [activeView, setActiveView] = useState<View>('dashboard');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -140,27 +931,90 @@ export default function App() {
   const [loading, setLoading] = useState(true);
   const [isTaskModalOpen, setIsTaskModalOpen] = useState(false);
   const [isLectureModalOpen, setIsLectureModalOpen] = useState(false);
+  const [internshipLogs, setInternshipLogs] = useState<InternshipLog[]>([]);
+  const [settings, setSettings] = useState<Record<string, string>>({});
+  const [editingLog, setEditingLog] = useState<InternshipLog | null>(null);
+  const [isInternshipModalOpen, setIsInternshipModalOpen] = useState(false);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<number | null>(null);
+  const [planBlocks, setPlanBlocks] = useState<PlanBlock[]>([]);
+  const [focusTimer, setFocusTimer] = useState<FocusTimer | null>(null);
+  const [focusNotice, setFocusNotice] = useState<{ title: string, body: string } | null>(null);
+  // Completion time of the last session this tab knows about; undefined until the timer first loads,
+  // so sessions that ended before the page was opened aren't announced
+  const seenFocusCompletion = useRef<number | null | undefined>(undefined);
+
+  const fetchData = async () => {
+    try {
+      const [tasksData, lecturesData, internshipData, settingsData, projectsData, planData] = await Promise.all([
+        fetchJson<Task[]>('/api/tasks'),
+        fetchJson<Lecture[]>('/api/lectures'),
+        fetchJson<InternshipLog[]>('/api/internship'),
+        fetchJson<Record<string, string>>('/api/settings'),
+        fetchJson<Project[]>('/api/projects'),
+        fetchJson<PlanBlock[]>('/api/plan')
+      ]);
+      if (tasksData) setTasks(tasksData);
+      if (lecturesData) setLectures(lecturesData);
+      if (internshipData) setInternshipLogs(internshipData);
+      if (settingsData) setSettings(settingsData);
+      if (projectsData) setProjects(projectsData);
+      if (planData) setPlanBlocks(planData);
+    } catch (error) {
+      console.error("Fetch error:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
 
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchUser = async () => {
       try {
-        const [tasksRes, lecturesRes] = await Promise.all([
-          fetch('/api/tasks'),
-          fetch('/api/lectures')
-        ]);
-        const tasksData = await tasksRes.json();
-        const lecturesData = await lecturesRes.json();
-        setTasks(tasksData);
-        setLectures(lecturesData);
+        const res = await fetch('/api/auth/me');
+        if (res.ok) setUser(await res.json());
       } catch (error) {
-        console.error("Fetch error:", error);
+        console.error("Fetch user error:", error);
       } finally {
-        setLoading(false);
+        setAuthChecked(true);
       }
     };
-    fetchData();
+    fetchUser();
+  }, []);
+
+  useEffect(() => {
+    if (user) fetchData();
+  }, [user?.id]);
+
+  // Drops everything loaded for the signed-in user, which brings back the sign-in screen
+  const clearSession = () => {
+    setUser(null);
+    setActiveView('dashboard');
+    setTasks([]);
+    setLectures([]);
+    setInternshipLogs([]);
+    setSettings({});
+    setProjects([]);
+    setPlanBlocks([]);
+    setFocusTimer(null);
+    seenFocusCompletion.current = undefined;
+  };
+
+  useEffect(() => {
+    onUnauthorized(clearSession);
   }, []);
 
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    clearSession();
+  };
+
+  // Resolves to the server's error message when the task couldn't be created
   const handleAddTask = async (taskData: Omit<Task, 'id'>) => {
     try {
       const res = await fetch('/api/tasks', {
@@ -169,10 +1023,37 @@ export default function App() {
         body: JSON.stringify(taskData)
       });
       const data = await res.json();
-      setTasks(prev => [{ ...taskData, id: data.id }, ...prev]);
+      if (!res.ok) return data.error as string;
+      setTasks(prev => [{ ...taskData, id: data.id, position: data.position }, ...prev]);
       setIsTaskModalOpen(false);
+      return null;
     } catch (error) {
       console.error("Add task error:", error);
+      return "Failed to create task";
+    }
+  };
+
+  const refreshTasks = async () => {
+    try {
+      const data = await fetchJson<Task[]>('/api/tasks');
+      if (data) setTasks(data);
+    } catch (error) {
+      console.error("Fetch tasks error:", error);
+    }
+  };
+
+  // The assistant changed data on the server; reload whatever it touched
+  const handleAssistantChanges = (areas: AssistantAction['area'][]) => {
+    if (areas.includes('tasks')) refreshTasks();
+    if (areas.includes('lectures')) refreshLectures();
+  };
+
+  const refreshLectures = async () => {
+    try {
+      const data = await fetchJson<Lecture[]>('/api/lectures');
+      if (data) setLectures(data);
+    } catch (error) {
+      console.error("Fetch lectures error:", error);
     }
   };
 
@@ -183,15 +1064,27 @@ export default function App() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(lectureData)
       });
-      const res = await fetch('/api/lectures');
-      const data = await res.json();
-      setLectures(data);
+      await refreshLectures();
       setIsLectureModalOpen(false);
     } catch (error) {
       console.error("Add lecture error:", error);
     }
   };
 
+  const handleUpdateLecture = async (id: number, changes: Partial<Lecture>) => {
+    try {
+      const res = await fetch(`/api/lectures/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await refreshLectures();
+    } catch (error) {
+      console.error("Update lecture error:", error);
+    }
+  };
+
   const handleMarkAttendance = async (id: number, status: string) => {
     try {
       await fetch(`/api/lectures/${id}`, {
@@ -205,30 +1098,267 @@ export default function App() {
     }
   };
 
-  const handleFocusSessionComplete = async (duration: number, type: string) => {
+  const handleSaveInternshipLog = async (logData: Omit<InternshipLog, 'id'>) => {
     try {
-      await fetch('/api/focus', {
-        method: 'POST',
+      const res = await fetch(editingLog ? `/api/internship/${editingLog.id}` : '/api/internship', {
+        method: editingLog ? 'PATCH' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ duration, type })
+        body: JSON.stringify(logData)
       });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const logs = await fetchJson<InternshipLog[]>('/api/internship');
+      if (logs) setInternshipLogs(logs);
+      setIsInternshipModalOpen(false);
+      setEditingLog(null);
     } catch (error) {
-      console.error("Focus session save error:", error);
+      console.error("Save internship log error:", error);
     }
   };
 
-  const renderContent = () => {
+  const handleDeleteInternshipLog = async (id: number) => {
+    try {
+      await fetch(`/api/internship/${id}`, { method: 'DELETE' });
+      setInternshipLogs(prev => prev.filter(l => l.id !== id));
+    } catch (error) {
+      console.error("Delete internship log error:", error);
+    }
+  };
+
+  const handleSaveProject = async (projectData: Omit<Project, 'id' | 'milestones'>) => {
+    try {
+      const res = await fetch(editingProject ? `/api/projects/${editingProject.id}` : '/api/projects', {
+        method: editingProject ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(projectData)
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      const projectsData = await fetchJson<Project[]>('/api/projects');
+      if (projectsData) setProjects(projectsData);
+      setIsProjectModalOpen(false);
+      setEditingProject(null);
+    } catch (error) {
+      console.error("Save project error:", error);
+    }
+  };
+
+  const handleUpdateSettings = async (changes: Record<string, string>) => {
+    try {
+      await fetch('/api/settings', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      setSettings(prev => ({ ...prev, ...changes }));
+    } catch (error) {
+      console.error("Settings error:", error);
+    }
+  };
+
+  const refreshProjects = async () => {
+    try {
+      const data = await fetchJson<Project[]>('/api/projects');
+      if (data) setProjects(data);
+    } catch (error) {
+      console.error("Fetch projects error:", error);
+    }
+  };
+
+  const refreshPlan = async () => {
+    try {
+      const data = await fetchJson<PlanBlock[]>('/api/plan');
+      if (data) setPlanBlocks(data);
+    } catch (error) {
+      console.error("Fetch plan error:", error);
+    }
+  };
+
+  const handlePlanBlockDone = async (id: number, done: boolean) => {
+    try {
+      await fetch(`/api/plan/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ done })
+      });
+      setPlanBlocks(prev => prev.map(block => block.id === id ? { ...block, done: done ? 1 : 0 } : block));
+    } catch (error) {
+      console.error("Plan block error:", error);
+    }
+  };
+
+  const applyFocusTimer = (timer: Omit<FocusTimer, 'offset'>) => {
+    setFocusTimer({ ...timer, offset: timer.now - Date.now() });
+  };
+
+  const fetchFocusTimer = async () => {
+    try {
+      const res = await fetch('/api/focus/active');
+      if (res.ok) applyFocusTimer(await res.json());
+    } catch (error) {
+      console.error("Fetch focus timer error:", error);
+    }
+  };
+
+  const sendFocusTimer = async (path: string, method: string, body: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/focus/active${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      applyFocusTimer(data);
+      // Other open tabs pick the change up from the storage event
+      localStorage.setItem('focusTimerChanged', String(Date.now()));
+    } catch (error) {
+      console.error("Focus timer error:", error);
+      // Most likely another tab changed the timer first
+      fetchFocusTimer();
+    }
+  };
+
+  const handleFocusAction = (action: FocusAction, body: Record<string, unknown> = {}) => {
+    if (action === 'start' || action === 'resume') prepareChime();
+    return sendFocusTimer(`/${action}`, 'POST', body);
+  };
+
+  const handleFocusTimerChange = (changes: Record<string, unknown>) => sendFocusTimer('', 'PATCH', changes);
+
+  // The timer is shared with other tabs and devices, so it's checked periodically, whenever this tab
+  // is shown again and as soon as another tab changes it
+  useEffect(() => {
+    if (!user) return;
+    fetchFocusTimer();
+    const interval = setInterval(fetchFocusTimer, 15 * 1000);
+    const onVisible = () => { if (!document.hidden) fetchFocusTimer(); };
+    const onStorage = (e: StorageEvent) => { if (e.key === 'focusTimerChanged') fetchFocusTimer(); };
+    document.addEventListener('visibilitychange', onVisible);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisible);
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [user?.id]);
+
+  const announceFocus = (title: string, body: string, completedAt: number) => {
+    setFocusNotice({ title, body });
+    // Every open tab shows the notice, but only the first to see the completion plays the chime
+    if (chimeContext && localStorage.getItem('focusSound') !== 'off' && localStorage.getItem('focusChimed') !== String(completedAt)) {
+      localStorage.setItem('focusChimed', String(completedAt));
+      playChime();
+    }
+    // Desktop alerts follow the preference set in the notification centre; the tag shows them once
+    if (document.hidden && typeof Notification !== 'undefined' && Notification.permission === 'granted' && localStorage.getItem('desktopAlerts') === 'on') {
+      new Notification(title, { body, tag: 'productivity-focus' });
+    }
+  };
+
+  // A session ended, here or in another tab: announce it and reload what it changed
+  useEffect(() => {
+    if (!focusTimer) return;
+    const seen = seenFocusCompletion.current;
+    seenFocusCompletion.current = focusTimer.completed_at;
+    if (seen === undefined || !focusTimer.completed_at || focusTimer.completed_at === seen) return;
+
+    const config = pomodoroConfig(settings);
+    // A work session stopped early leaves the timer on work, so there's no break to announce
+    if (focusTimer.completed_phase === 'work' && focusTimer.phase !== 'work') {
+      announceFocus(
+        'Work session complete',
+        focusTimer.phase === 'long_break'
+          ? `${focusTimer.completed_work} sessions done. Take a ${config.longBreak} minute break.`
+          : `Take a ${config.shortBreak} minute break.`,
+        focusTimer.completed_at
+      );
+    } else if (focusTimer.completed_phase !== 'work') {
+      announceFocus('Break over', `Time to focus for ${config.work} minutes.`, focusTimer.completed_at);
+    }
+    // Tracked time on tasks and projects includes the session, and it may have finished a plan block
+    refreshTasks();
+    refreshProjects();
+    refreshPlan();
+  }, [focusTimer?.completed_at]);
+
+  useEffect(() => {
+    if (!focusNotice) return;
+    const timeout = setTimeout(() => setFocusNotice(null), 8000);
+    return () => clearTimeout(timeout);
+  }, [focusNotice]);
+
+  const handleNavigate = (view: View, kind: SearchKind, id: number) => {
+    setActiveView(view);
+    if (kind === 'task') setOpenTaskId(id);
+  };
+
+  const renderContent = () => {
     switch (activeView) {
       case 'dashboard':
-        return <Dashboard tasks={tasks} lectures={lectures} />;
+        return (
+          <Dashboard
+            userName={user?.name || ''}
+            tasks={tasks}
+            lectures={lectures}
+            planBlocks={planBlocks}
+            onPlanChanged={refreshPlan}
+            onPlanBlockDone={handlePlanBlockDone}
+            onStartFocus={() => setActiveView('focus')}
+          />
+        );
       case 'tasks':
-        return <TaskManager tasks={tasks} setTasks={setTasks} onAddTask={() => setIsTaskModalOpen(true)} />;
+        return <TaskManager userName={user?.name || ''} tasks={tasks} setTasks={setTasks} onAddTask={() => setIsTaskModalOpen(true)} openTaskId={openTaskId} onTaskOpened={() => setOpenTaskId(null)} />;
       case 'lectures':
-        return <LectureTracker lectures={lectures} onAddLecture={() => setIsLectureModalOpen(true)} onMarkAttendance={handleMarkAttendance} />;
+        return (
+          <LectureTracker
+            lectures={lectures}
+            threshold={Number(settings.attendance_threshold) || 75}
+            onAddLecture={() => setIsLectureModalOpen(true)}
+            onMarkAttendance={handleMarkAttendance}
+            onUpdateLecture={handleUpdateLecture}
+            onTimetableChanged={refreshLectures}
+            onUpdateThreshold={(percent) => handleUpdateSettings({ attendance_threshold: String(percent) })}
+          />
+        );
+      case 'internship':
+        return (
+          <InternshipTracker
+            logs={internshipLogs}
+            targetHours={Number(settings.internship_target_hours) || 0}
+            onAddLog={() => { setEditingLog(null); setIsInternshipModalOpen(true); }}
+            onEditLog={(log) => { setEditingLog(log); setIsInternshipModalOpen(true); }}
+            onDeleteLog={handleDeleteInternshipLog}
+            onUpdateTarget={(hours) => handleUpdateSettings({ internship_target_hours: String(hours) })}
+          />
+        );
+      case 'projects':
+        return (
+          <ProjectBoard
+            projects={projects}
+            setProjects={setProjects}
+            onAddProject={() => { setEditingProject(null); setIsProjectModalOpen(true); }}
+            onEditProject={(project) => { setEditingProject(project); setIsProjectModalOpen(true); }}
+          />
+        );
+      case 'analytics':
+        return <Analytics />;
       case 'focus':
-        return <FocusMode onSessionComplete={handleFocusSessionComplete} />;
+        return (
+          <FocusMode
+            timer={focusTimer}
+            tasks={tasks}
+            projects={projects}
+            onTimeLogged={() => { refreshTasks(); refreshProjects(); }}
+            settings={settings}
+            onUpdateSettings={handleUpdateSettings}
+            planBlocks={planBlocks}
+            onAction={handleFocusAction}
+            onChange={handleFocusTimerChange}
+          />
+        );
       case 'ai':
-        return <AIAssistant />;
+        return <AIAssistant userName={user?.name || ''} onDataChanged={handleAssistantChanges} />;
+      case 'settings':
+        return user && <DataSettings user={user} onUserChange={setUser} onLogout={handleLogout} onImported={fetchData} />;
       default:
         return (
           <div className="flex flex-col items-center justify-center h-[60vh] text-zinc-500">
@@ -240,6 +1370,16 @@ export default function App() {
     }
   };
 
+  if (!authChecked) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-bg-dark text-zinc-500">
+        <Loader2 size={24} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) return <AuthScreen onAuthenticated={setUser} />;
+
   return (
     <div className="flex h-screen bg-bg-dark overflow-hidden">
       {/* Sidebar */}
@@ -273,19 +1413,32 @@ export default function App() {
           <SidebarItem icon={BarChart3} label="Analytics" active={activeView === 'analytics'} onClick={() => setActiveView('analytics')} collapsed={isSidebarCollapsed} />
           <SidebarItem icon={Timer} label="Focus Mode" active={activeView === 'focus'} onClick={() => setActiveView('focus')} collapsed={isSidebarCollapsed} />
           <SidebarItem icon={MessageSquare} label="AI Assistant" active={activeView === 'ai'} onClick={() => setActiveView('ai')} collapsed={isSidebarCollapsed} />
+          <SidebarItem icon={Settings} label="Settings" active={activeView === 'settings'} onClick={() => setActiveView('settings')} collapsed={isSidebarCollapsed} />
         </nav>
 
         <div className="p-4 border-t border-zinc-800/50">
-          <div className={cn("flex items-center gap-3 p-2 rounded-xl hover:bg-zinc-800/50 transition-colors cursor-pointer", isSidebarCollapsed && "justify-center")}>
+          <div
+            onClick={() => setActiveView('settings')}
+            className={cn("flex items-center gap-3 p-2 rounded-xl hover:bg-zinc-800/50 transition-colors cursor-pointer", isSidebarCollapsed && "justify-center")}
+          >
             <div className="w-8 h-8 rounded-full bg-zinc-700 flex items-center justify-center text-zinc-300">
               <User size={18} />
             </div>
             {!isSidebarCollapsed && (
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium truncate">Darshan</p>
-                <p className="text-xs text-zinc-500 truncate">AI & DS Student</p>
+                <p className="text-sm font-medium truncate">{user.name}</p>
+                <p className="text-xs text-zinc-500 truncate">{user.role || user.email}</p>
               </div>
             )}
+            {!isSidebarCollapsed && (
+              <button
+                onClick={(e) => { e.stopPropagation(); handleLogout(); }}
+                title="Log out"
+                className="p-1.5 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded-lg transition-colors"
+              >
+                <LogOut size={16} />
+              </button>
+            )}
           </div>
         </div>
       </motion.aside>
@@ -295,20 +1448,16 @@ export default function App() {
         {/* Top Navbar */}
         <header className="h-16 border-bottom border-zinc-800/50 flex items-center justify-between px-8 bg-zinc-900/10 backdrop-blur-sm z-40">
           <div className="flex-1 max-w-md">
-            <div className="relative group">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500 group-focus-within:text-brand-primary transition-colors" size={18} />
-              <input 
-                type="text" 
-                placeholder="Search anything..." 
-                className="w-full bg-zinc-900/50 border border-zinc-800 rounded-xl py-2 pl-10 pr-4 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 focus:border-brand-primary/50 transition-all"
-              />
-            </div>
+            <GlobalSearch onNavigate={handleNavigate} />
           </div>
           <div className="flex items-center gap-4">
-            <button className="p-2 text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800 rounded-lg relative">
-              <Bell size={20} />
-              <span className="absolute top-2 right-2 w-2 h-2 bg-brand-primary rounded-full border-2 border-bg-dark" />
-            </button>
+            <HeaderFocusTimer
+              timer={focusTimer}
+              onOpen={() => setActiveView('focus')}
+              onAction={handleFocusAction}
+              onExpired={fetchFocusTimer}
+            />
+            <NotificationCenter onNavigate={handleNavigate} />
             <div className="h-8 w-[1px] bg-zinc-800" />
             <button 
               onClick={() => setIsTaskModalOpen(true)}
@@ -334,6 +1483,26 @@ export default function App() {
             </motion.div>
           </AnimatePresence>
         </div>
+
+        <AnimatePresence>
+          {focusNotice && (
+            <motion.div
+              initial={{ opacity: 0, y: -12 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -12 }}
+              className="fixed top-20 right-6 z-50 w-80 glass-card rounded-xl p-4 shadow-2xl flex items-start gap-3"
+            >
+              <BellRing size={18} className="text-brand-primary shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="text-sm font-semibold">{focusNotice.title}</p>
+                <p className="text-xs text-zinc-400 mt-0.5">{focusNotice.body}</p>
+              </div>
+              <button onClick={() => setFocusNotice(null)} className="text-zinc-500 hover:text-zinc-200">
+                <X size={14} />
+              </button>
+            </motion.div>
+          )}
+        </AnimatePresence>
       </main>
 
       <TaskModal 
@@ -347,35 +1516,198 @@ export default function App() {
         onClose={() => setIsLectureModalOpen(false)} 
         onAdd={handleAddLecture} 
       />
+
+      <InternshipModal
+        isOpen={isInternshipModalOpen}
+        log={editingLog}
+        onClose={() => { setIsInternshipModalOpen(false); setEditingLog(null); }}
+        onSave={handleSaveInternshipLog}
+      />
+
+      <ProjectModal
+        isOpen={isProjectModalOpen}
+        project={editingProject}
+        onClose={() => { setIsProjectModalOpen(false); setEditingProject(null); }}
+        onSave={handleSaveProject}
+      />
+    </div>
+  );
+}
+
+function AuthScreen({ onAuthenticated }: { onAuthenticated: (user: AuthUser) => void }) {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mode === 'signup' ? { name, role, email, password } : { email, password })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onAuthenticated(data);
+    } catch (error: any) {
+      console.error("Auth error:", error);
+      setError(error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all";
+  const labelClass = "block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5";
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-bg-dark p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        className="w-full max-w-md glass-card rounded-2xl p-8 shadow-2xl"
+      >
+        <div className="flex items-center gap-2 mb-6">
+          <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-brand-primary to-brand-secondary flex items-center justify-center text-white font-bold">D</div>
+          <span className="font-display font-bold text-lg tracking-tight">Darshan OS</span>
+        </div>
+        <h2 className="text-2xl font-bold font-display mb-1">{mode === 'login' ? 'Welcome back' : 'Create your account'}</h2>
+        <p className="text-sm text-zinc-500 mb-6">
+          {mode === 'login' ? 'Log in to your dashboard.' : 'The first account also takes over any existing data.'}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'signup' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input required type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Role</label>
+                <input type="text" value={role} onChange={(e) => setRole(e.target.value)} placeholder="e.g. AI & DS Student" className={inputClass} />
+              </div>
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Email</label>
+            <input required type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Password</label>
+            <input
+              required
+              type="password"
+              minLength={mode === 'signup' ? 8 : undefined}
+              autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          {error && <p className="text-xs text-rose-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20 disabled:opacity-50"
+          >
+            {isSubmitting && <Loader2 size={16} className="animate-spin" />}
+            {mode === 'login' ? 'Log in' : 'Sign up'}
+          </button>
+        </form>
+        <p className="text-sm text-zinc-500 text-center mt-6">
+          {mode === 'login' ? "Don't have an account? " : 'Already have an account? '}
+          <button
+            onClick={() => { setMode(mode === 'login' ? 'signup' : 'login'); setError(null); }}
+            className="text-brand-primary font-medium hover:underline"
+          >
+            {mode === 'login' ? 'Sign up' : 'Log in'}
+          </button>
+        </p>
+      </motion.div>
     </div>
   );
 }
 
 // --- View Components ---
 
-function Dashboard({ tasks, lectures }: { tasks: Task[], lectures: Lecture[] }) {
-  const chartData = [
-    { name: 'Mon', tasks: 4, hours: 6 },
-    { name: 'Tue', tasks: 3, hours: 5 },
-    { name: 'Wed', tasks: 7, hours: 8 },
-    { name: 'Thu', tasks: 5, hours: 7 },
-    { name: 'Fri', tasks: 8, hours: 9 },
-    { name: 'Sat', tasks: 2, hours: 4 },
-    { name: 'Sun', tasks: 1, hours: 2 },
-  ];
+function Dashboard({
+  userName,
+  tasks,
+  lectures,
+  planBlocks,
+  onPlanChanged,
+  onPlanBlockDone,
+  onStartFocus
+}: {
+  userName: string,
+  tasks: Task[],
+  lectures: Lecture[],
+  planBlocks: PlanBlock[],
+  onPlanChanged: () => void,
+  onPlanBlockDone: (id: number, done: boolean) => void,
+  onStartFocus: () => void
+}) {
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [isPlanModalOpen, setIsPlanModalOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      try {
+        const data = await fetchJson<DashboardSummary>('/api/dashboard/summary');
+        if (data) setSummary(data);
+      } catch (error) {
+        console.error("Dashboard summary error:", error);
+      }
+    };
+    fetchSummary();
+  }, [tasks, lectures]);
+
+  const chartData = summary?.series || [];
 
   const pendingTasks = tasks.filter(t => t.status !== 'done').length;
   const completedTasks = tasks.filter(t => t.status === 'done').length;
 
-  const totalLectures = lectures.length;
+  // Re-evaluated every minute so the "Live" badge and 24h window stay current
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const today = format(now, 'yyyy-MM-dd');
+  const dayAhead = addHours(now, 24);
+  const upcomingLectures = lectures
+    .map(lecture => {
+      const date = lecture.date.slice(0, 10);
+      return {
+        lecture,
+        start: parseISO(`${date}T${lecture.start_time || '00:00'}`),
+        end: lecture.end_time ? parseISO(`${date}T${lecture.end_time}`) : null
+      };
+    })
+    .filter(({ lecture, start, end }) => lecture.start_time
+      ? (end ?? start) > now && start < dayAhead
+      : lecture.date.slice(0, 10) === today)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .slice(0, 3);
+
+  // Only lectures with attendance marked count, so upcoming timetable lectures don't lower the rate
+  const markedLectures = lectures.filter(l => l.attendance_status === 'present' || l.attendance_status === 'absent').length;
   const presentLectures = lectures.filter(l => l.attendance_status === 'present').length;
-  const attendanceRate = totalLectures > 0 ? Math.round((presentLectures / totalLectures) * 100) : 0;
+  const attendanceRate = markedLectures > 0 ? Math.round((presentLectures / markedLectures) * 100) : 0;
 
   return (
     <div className="space-y-8">
       <div className="flex items-end justify-between">
         <div>
-          <h1 className="text-3xl font-bold font-display tracking-tight">Welcome back, Darshan</h1>
+          <h1 className="text-3xl font-bold font-display tracking-tight">Welcome back, {userName.split(' ')[0]}</h1>
           <p className="text-zinc-500 mt-1">Here's what's happening with your productivity today.</p>
         </div>
         <div className="flex items-center gap-2 text-sm font-medium text-zinc-400 bg-zinc-900/50 px-3 py-1.5 rounded-lg border border-zinc-800">
@@ -385,14 +1717,14 @@ function Dashboard({ tasks, lectures }: { tasks: Task[], lectures: Lecture[] })
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-        <StatCard label="Total Tasks" value={tasks.length} trend={0} icon={CheckSquare} color="bg-blue-500/10 text-blue-500" />
-        <StatCard label="Tasks Pending" value={pendingTasks} trend={-12} icon={Clock} color="bg-indigo-500/10 text-indigo-500" />
-        <StatCard label="Tasks Completed" value={completedTasks} trend={24} icon={Award} color="bg-emerald-500/10 text-emerald-500" />
-        <StatCard label="Lecture Attendance" value={`${attendanceRate}%`} trend={0} icon={BookOpen} color="bg-amber-500/10 text-amber-500" />
+        <StatCard label="Total Tasks" value={tasks.length} trend={summary?.trends.totalTasks} icon={CheckSquare} color="bg-blue-500/10 text-blue-500" />
+        <StatCard label="Tasks Pending" value={pendingTasks} trend={summary?.trends.pendingTasks} lowerIsBetter icon={Clock} color="bg-indigo-500/10 text-indigo-500" />
+        <StatCard label="Tasks Completed" value={completedTasks} trend={summary?.trends.completedTasks} icon={Award} color="bg-emerald-500/10 text-emerald-500" />
+        <StatCard label="Lecture Attendance" value={`${attendanceRate}%`} trend={summary?.trends.attendance} icon={BookOpen} color="bg-amber-500/10 text-amber-500" />
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <Card className="lg:col-span-2" title="Productivity Overview" subtitle="Tasks completed vs Hours tracked">
+        <Card className="lg:col-span-2" title="Productivity Overview" subtitle="Tasks completed vs focus hours, last 7 days">
           <div className="h-[300px] w-full mt-4">
             <ResponsiveContainer width="100%" height="100%">
               <AreaChart data={chartData}>
@@ -401,6 +1733,10 @@ function Dashboard({ tasks, lectures }: { tasks: Task[], lectures: Lecture[] })
                     <stop offset="5%" stopColor="#6366f1" stopOpacity={0.3}/>
                     <stop offset="95%" stopColor="#6366f1" stopOpacity={0}/>
                   </linearGradient>
+                  <linearGradient id="colorHours" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                  </linearGradient>
                 </defs>
                 <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
                 <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
@@ -409,7 +1745,8 @@ function Dashboard({ tasks, lectures }: { tasks: Task[], lectures: Lecture[] })
                   contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '12px' }}
                   itemStyle={{ color: '#f4f4f5' }}
                 />
-                <Area type="monotone" dataKey="tasks" stroke="#6366f1" fillOpacity={1} fill="url(#colorTasks)" strokeWidth={2} />
+                <Area type="monotone" dataKey="tasks" name="Tasks completed" stroke="#6366f1" fillOpacity={1} fill="url(#colorTasks)" strokeWidth={2} />
+                <Area type="monotone" dataKey="hours" name="Focus hours" stroke="#10b981" fillOpacity={1} fill="url(#colorHours)" strokeWidth={2} />
               </AreaChart>
             </ResponsiveContainer>
           </div>
@@ -417,94 +1754,458 @@ function Dashboard({ tasks, lectures }: { tasks: Task[], lectures: Lecture[] })
 
         <Card title="Upcoming Lectures" subtitle="Next 24 hours">
           <div className="space-y-4 mt-4">
-            {lectures.slice(0, 3).map((lecture) => (
+            {upcomingLectures.map(({ lecture, start, end }) => (
               <div key={lecture.id} className="flex items-center gap-4 p-3 rounded-xl bg-zinc-800/30 border border-zinc-800/50 hover:border-zinc-700 transition-colors">
                 <div className="w-10 h-10 rounded-lg bg-zinc-800 flex items-center justify-center text-zinc-400">
                   <BookOpen size={20} />
                 </div>
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-semibold truncate">{lecture.subject}</p>
-                  <p className="text-xs text-zinc-500 truncate">{lecture.topic}</p>
+                  <p className="text-xs text-zinc-500 truncate">{[lecture.topic, lecture.room].filter(Boolean).join(' · ')}</p>
                 </div>
                 <div className="text-right">
-                  <p className="text-xs font-medium text-zinc-400">10:00 AM</p>
-                  <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500 font-bold uppercase tracking-wider">Live</span>
+                  <p className="text-xs font-medium text-zinc-400">{lecture.start_time ? format(start, 'h:mm a') : 'Today'}</p>
+                  {end && start <= now && now < end ? (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-500 font-bold uppercase tracking-wider">Live</span>
+                  ) : format(start, 'yyyy-MM-dd') !== today && (
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400 font-bold uppercase tracking-wider">Tomorrow</span>
+                  )}
                 </div>
               </div>
             ))}
-            {lectures.length === 0 && <p className="text-sm text-zinc-500 text-center py-8">No lectures scheduled.</p>}
+            {upcomingLectures.length === 0 && <p className="text-sm text-zinc-500 text-center py-8">No lectures scheduled.</p>}
           </div>
         </Card>
       </div>
+
+      <TodayPlan
+        blocks={planBlocks}
+        now={now}
+        onPlanDay={() => setIsPlanModalOpen(true)}
+        onToggleDone={onPlanBlockDone}
+        onStartFocus={onStartFocus}
+      />
+      <PlanDayModal isOpen={isPlanModalOpen} onClose={() => setIsPlanModalOpen(false)} onAccepted={onPlanChanged} />
     </div>
   );
 }
 
-function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks: any, onAddTask: () => void }) {
-  const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban');
+// The block that's running now, or else the next one today that isn't done
+const nextPlanBlock = (blocks: PlanBlock[], now: Date) => {
+  const today = format(now, 'yyyy-MM-dd');
+  const time = format(now, 'HH:mm');
+  return blocks
+    .filter(block => block.date === today && !block.done && block.end_time > time)
+    .sort((a, b) => a.start_time.localeCompare(b.start_time))[0] ?? null;
+};
 
-  const columns = [
-    { id: 'todo', title: 'To Do', color: 'bg-zinc-500' },
-    { id: 'in-progress', title: 'In Progress', color: 'bg-brand-primary' },
-    { id: 'done', title: 'Completed', color: 'bg-emerald-500' },
-  ];
+function TodayPlan({
+  blocks,
+  now,
+  onPlanDay,
+  onToggleDone,
+  onStartFocus
+}: {
+  blocks: PlanBlock[],
+  now: Date,
+  onPlanDay: () => void,
+  onToggleDone: (id: number, done: boolean) => void,
+  onStartFocus: () => void
+}) {
+  const time = format(now, 'HH:mm');
+  const next = nextPlanBlock(blocks, now);
 
-  const updateTaskStatus = async (id: number, status: string) => {
+  return (
+    <div className="glass-card rounded-2xl p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold font-display tracking-tight">Today's Plan</h3>
+          <p className="text-xs text-zinc-500">Focus blocks around your lectures</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {next && (
+            <button
+              onClick={onStartFocus}
+              className="flex items-center gap-2 px-3 py-2 rounded-xl bg-zinc-800 text-zinc-300 text-sm font-medium hover:bg-zinc-700 transition-colors"
+            >
+              <Play size={14} />
+              <span>Focus on next block</span>
+            </button>
+          )}
+          <button
+            onClick={onPlanDay}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors"
+          >
+            <Sparkles size={14} />
+            <span>{blocks.length > 0 ? 'Replan' : 'Plan my day'}</span>
+          </button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {blocks.map(block => {
+          const current = !block.done && block.start_time <= time && time < block.end_time;
+          return (
+            <div
+              key={block.id}
+              className={cn(
+                "flex items-center gap-4 p-3 rounded-xl border transition-colors",
+                current ? "bg-brand-primary/10 border-brand-primary/30" : "bg-zinc-800/30 border-zinc-800/50"
+              )}
+            >
+              <button
+                onClick={() => onToggleDone(block.id, !block.done)}
+                className={cn(
+                  "w-5 h-5 rounded-md border flex items-center justify-center shrink-0 transition-colors",
+                  block.done ? "bg-emerald-500 border-emerald-500 text-white" : "border-zinc-600 hover:border-zinc-400"
+                )}
+              >
+                {!!block.done && <CheckCheck size={12} />}
+              </button>
+              <span className="text-xs font-medium text-zinc-400 tabular-nums w-24 shrink-0">{block.start_time}–{block.end_time}</span>
+              <span className={cn("flex-1 text-sm truncate", block.done ? "text-zinc-500 line-through" : "text-zinc-200")}>{block.title}</span>
+              {current && <span className="text-[10px] px-1.5 py-0.5 rounded bg-brand-primary/20 text-brand-primary font-bold uppercase tracking-wider">Now</span>}
+            </div>
+          );
+        })}
+        {blocks.length === 0 && <p className="text-sm text-zinc-500 text-center py-6">No plan for today yet.</p>}
+      </div>
+    </div>
+  );
+}
+
+function PlanDayModal({ isOpen, onClose, onAccepted }: { isOpen: boolean, onClose: () => void, onAccepted: () => void }) {
+  const [focusBlocks, setFocusBlocks] = useState(4);
+  const [blockMinutes, setBlockMinutes] = useState(50);
+  const [endTime, setEndTime] = useState('22:00');
+  const [draft, setDraft] = useState<PlanDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleClose = () => {
+    setDraft(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleGenerate = async () => {
+    setBusy(true);
+    setError(null);
     try {
-      await fetch(`/api/tasks/${id}`, {
-        method: 'PATCH',
+      const res = await fetch('/api/ai/plan', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
+        body: JSON.stringify({ focus_blocks: focusBlocks, block_minutes: blockMinutes, end_time: endTime })
       });
-      setTasks(tasks.map(t => t.id === id ? { ...t, status } : t));
-    } catch (error) {
-      console.error("Update error:", error);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setDraft(data);
+    } catch (err: any) {
+      setError(err.message || 'Failed to generate a plan');
+    } finally {
+      setBusy(false);
     }
   };
 
-  const isOverdue = (date: string) => {
-    if (!date) return false;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const due = new Date(date);
-    return due < today;
-  };
-
-  const isDueSoon = (date: string) => {
-    if (!date) return false;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const due = new Date(date);
-    const diff = due.getTime() - today.getTime();
-    const days = diff / (1000 * 60 * 60 * 24);
-    return days >= 0 && days <= 1;
+  const handleAccept = async () => {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/plan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: draft.date, blocks: draft.blocks })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onAccepted();
+      handleClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the plan');
+    } finally {
+      setBusy(false);
+    }
   };
 
   return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-2xl font-bold font-display">Task Manager</h1>
-          <p className="text-zinc-500 text-sm">Manage your assignments, projects, and daily goals.</p>
-        </div>
-        <div className="flex items-center gap-2 bg-zinc-900/50 p-1 rounded-xl border border-zinc-800">
-          <button 
-            onClick={() => setViewMode('kanban')}
-            className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", viewMode === 'kanban' ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
-          >
-            Kanban
-          </button>
-          <button 
-            onClick={() => setViewMode('list')}
-            className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", viewMode === 'list' ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={handleClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl max-h-[90vh] overflow-y-auto custom-scrollbar"
           >
-            List
-          </button>
-        </div>
-      </div>
+            <h2 className="text-2xl font-bold font-display mb-1">Plan my day</h2>
+            <p className="text-sm text-zinc-500 mb-6">Focus blocks for your open tasks, fitted around today's lectures.</p>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Blocks</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={8}
+                  value={focusBlocks}
+                  onChange={(e) => setFocusBlocks(Number(e.target.value))}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Minutes each</label>
+                <input
+                  type="number"
+                  min={15}
+                  max={120}
+                  step={5}
+                  value={blockMinutes}
+                  onChange={(e) => setBlockMinutes(Number(e.target.value))}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Finish by</label>
+                <input
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+            </div>
 
-      {viewMode === 'kanban' ? (
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {draft && (
+              <div className="mt-6 space-y-3">
+                {draft.summary && <p className="text-sm text-zinc-300">{draft.summary}</p>}
+                <div className="space-y-2">
+                  {draft.blocks.map(block => (
+                    <div key={block.start_time} className="flex items-center gap-4 p-3 rounded-xl bg-zinc-800/30 border border-zinc-800/50">
+                      <span className="text-xs font-medium text-zinc-400 tabular-nums w-24 shrink-0">{block.start_time}–{block.end_time}</span>
+                      <span className="flex-1 text-sm truncate">{block.title}</span>
+                    </div>
+                  ))}
+                  {draft.blocks.length === 0 && <p className="text-sm text-zinc-500 text-center py-4">No usable blocks were proposed.</p>}
+                </div>
+                {draft.notes.length > 0 && (
+                  <ul className="text-xs text-amber-400 space-y-1">
+                    {draft.notes.map(note => <li key={note}>{note}</li>)}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {error && <p className="mt-4 text-sm text-rose-400">{error}</p>}
+
+            <div className="flex gap-3 pt-6">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={busy}
+                className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors disabled:opacity-50"
+              >
+                {busy && !draft ? 'Planning…' : draft ? 'Try again' : 'Generate'}
+              </button>
+              {draft && draft.blocks.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleAccept}
+                  disabled={busy}
+                  className="flex-1 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20 disabled:opacity-50"
+                >
+                  Accept plan
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function TaskManager({
+  userName,
+  tasks,
+  setTasks,
+  onAddTask,
+  openTaskId,
+  onTaskOpened
+}: {
+  userName: string,
+  tasks: Task[],
+  setTasks: any,
+  onAddTask: () => void,
+  openTaskId?: number | null,
+  onTaskOpened?: () => void
+}) {
+  const [viewMode, setViewMode] = useState<'kanban' | 'list'>('kanban');
+  const [selectedTaskId, setSelectedTaskId] = useState<number | null>(null);
+  const [dragTaskId, setDragTaskId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: Task['status'], index: number } | null>(null);
+
+  // Opened from global search
+  useEffect(() => {
+    if (!openTaskId) return;
+    setSelectedTaskId(openTaskId);
+    onTaskOpened?.();
+  }, [openTaskId]);
+
+  const columns: { id: Task['status'], title: string, color: string }[] = [
+    { id: 'todo', title: 'To Do', color: 'bg-zinc-500' },
+    { id: 'in-progress', title: 'In Progress', color: 'bg-brand-primary' },
+    { id: 'done', title: 'Completed', color: 'bg-emerald-500' },
+  ];
+
+  const updateTaskStatus = async (id: number, status: string) => {
+    try {
+      const res = await fetch(`/api/tasks/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status })
+      });
+      const data = await res.json();
+      replaceTask(data);
+    } catch (error) {
+      console.error("Update error:", error);
+    }
+  };
+
+  const columnTasks = (status: string) =>
+    tasks.filter(t => t.status === status).sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+
+  const handleDragOver = (e: React.DragEvent, status: Task['status'], index: number) => {
+    if (dragTaskId === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (dropTarget?.status !== status || dropTarget.index !== index) setDropTarget({ status, index });
+  };
+
+  const handleCardDragOver = (e: React.DragEvent, status: Task['status'], index: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    handleDragOver(e, status, e.clientY > rect.top + rect.height / 2 ? index + 1 : index);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const dragged = tasks.find(t => t.id === dragTaskId);
+    const target = dropTarget;
+    setDragTaskId(null);
+    setDropTarget(null);
+    if (!dragged || !target) return;
+
+    const sourceIds = columnTasks(dragged.status).map(t => t.id);
+    const targetIds = target.status === dragged.status ? sourceIds : columnTasks(target.status).map(t => t.id);
+    const fromIndex = sourceIds.indexOf(dragged.id);
+    sourceIds.splice(fromIndex, 1);
+    // Removing the card from above its drop point shifts the insertion index up by one
+    const insertAt = target.status === dragged.status && fromIndex < target.index ? target.index - 1 : target.index;
+    targetIds.splice(insertAt, 0, dragged.id);
+
+    const payload: Record<string, number[]> = { [target.status]: targetIds };
+    if (target.status !== dragged.status) payload[dragged.status] = sourceIds;
+
+    const previous = tasks;
+    setTasks(tasks.map(t => {
+      for (const [status, ids] of Object.entries(payload)) {
+        const position = ids.indexOf(t.id);
+        if (position !== -1) return { ...t, status: status as Task['status'], position };
+      }
+      return t;
+    }));
+
+    try {
+      const res = await fetch('/api/tasks/reorder', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ columns: payload })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      if (dragged.recurrence && target.status === 'done') await refreshTasks();
+    } catch (error) {
+      console.error("Reorder error:", error);
+      setTasks(previous);
+    }
+  };
+
+  const selectedTask = tasks.find(t => t.id === selectedTaskId) || null;
+
+  const saveTask = async (id: number, changes: Partial<Task>) => {
+    try {
+      const res = await fetch(`/api/tasks/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      replaceTask(data);
+      setSelectedTaskId(null);
+    } catch (error) {
+      console.error("Save task error:", error);
+    }
+  };
+
+  const refreshTasks = async () => {
+    const data = await fetchJson<Task[]>('/api/tasks');
+    if (data) setTasks(data);
+  };
+
+  const replaceTask = (updated: Task) => {
+    setTasks((prev: Task[]) => prev.map(t => t.id === updated.id ? { ...t, ...updated } : t));
+    // Completing a recurring task creates its next occurrence on the server
+    if (updated.next_occurrence_id && !tasks.some(t => t.id === updated.next_occurrence_id)) refreshTasks();
+  };
+
+  const deleteTask = async (id: number) => {
+    if (!confirm("Delete this task? This cannot be undone.")) return;
+    try {
+      await fetch(`/api/tasks/${id}`, { method: 'DELETE' });
+      setTasks(tasks.filter(t => t.id !== id));
+      setSelectedTaskId(null);
+    } catch (error) {
+      console.error("Delete task error:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold font-display">Task Manager</h1>
+          <p className="text-zinc-500 text-sm">Manage your assignments, projects, and daily goals.</p>
+        </div>
+        <div className="flex items-center gap-2 bg-zinc-900/50 p-1 rounded-xl border border-zinc-800">
+          <button 
+            onClick={() => setViewMode('kanban')}
+            className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", viewMode === 'kanban' ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
+          >
+            Kanban
+          </button>
+          <button 
+            onClick={() => setViewMode('list')}
+            className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", viewMode === 'list' ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
+          >
+            List
+          </button>
+        </div>
+      </div>
+
+      {viewMode === 'kanban' ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {columns.map(col => (
             <div key={col.id} className="space-y-4">
               <div className="flex items-center justify-between px-2">
@@ -512,7 +2213,7 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
                   <div className={cn("w-2 h-2 rounded-full", col.color)} />
                   <h3 className="font-semibold text-sm uppercase tracking-wider text-zinc-400">{col.title}</h3>
                   <span className="text-xs bg-zinc-800 px-2 py-0.5 rounded-full text-zinc-500">
-                    {tasks.filter(t => t.status === col.id).length}
+                    {columnTasks(col.id).length}
                   </span>
                 </div>
                 <button 
@@ -523,61 +2224,94 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
                 </button>
               </div>
               
-              <div className="space-y-3 min-h-[500px]">
-                {tasks.filter(t => t.status === col.id).map(task => (
-                  <motion.div
-                    layoutId={`task-${task.id}`}
+              <div
+                onDragOver={(e) => handleDragOver(e, col.id, columnTasks(col.id).length)}
+                onDrop={handleDrop}
+                className={cn(
+                  "space-y-3 min-h-[500px] rounded-xl transition-colors",
+                  dragTaskId !== null && dropTarget?.status === col.id && "bg-zinc-800/20"
+                )}
+              >
+                {columnTasks(col.id).map((task, index) => (
+                  <div
                     key={task.id}
-                    className="glass-card p-4 rounded-xl cursor-grab active:cursor-grabbing hover:border-zinc-700 transition-colors group"
+                    draggable
+                    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDragTaskId(task.id); }}
+                    onDragEnd={() => { setDragTaskId(null); setDropTarget(null); }}
+                    onDragOver={(e) => handleCardDragOver(e, col.id, index)}
+                    onDrop={handleDrop}
+                    className="relative"
                   >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center gap-2">
-                        <span className={cn(
-                          "text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-wider",
-                          task.priority === 'high' ? "bg-rose-500/10 text-rose-500" :
-                          task.priority === 'medium' ? "bg-amber-500/10 text-amber-500" :
-                          "bg-emerald-500/10 text-emerald-500"
-                        )}>
-                          {task.priority}
-                        </span>
-                        {task.status !== 'done' && isOverdue(task.due_date) && (
-                          <span className="flex items-center gap-1 text-[10px] text-rose-500 font-bold uppercase tracking-wider animate-pulse">
-                            <AlertCircle size={10} />
-                            Overdue
-                          </span>
-                        )}
-                        {task.status !== 'done' && isDueSoon(task.due_date) && (
-                          <span className="flex items-center gap-1 text-[10px] text-amber-500 font-bold uppercase tracking-wider">
-                            <AlertCircle size={10} />
-                            Due Soon
+                    {dropTarget?.status === col.id && dropTarget.index === index && dragTaskId !== task.id && (
+                      <div className="absolute -top-2 inset-x-0 h-0.5 rounded-full bg-brand-primary" />
+                    )}
+                    {dropTarget?.status === col.id && dropTarget.index === index + 1 && index === columnTasks(col.id).length - 1 && dragTaskId !== task.id && (
+                      <div className="absolute -bottom-2 inset-x-0 h-0.5 rounded-full bg-brand-primary" />
+                    )}
+                    <motion.div
+                      layoutId={`task-${task.id}`}
+                      onClick={() => setSelectedTaskId(task.id)}
+                      className={cn(
+                        "glass-card p-4 rounded-xl cursor-grab active:cursor-grabbing hover:border-zinc-700 transition-colors group",
+                        dragTaskId === task.id && "opacity-40"
+                      )}
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                          <span className={cn(
+                            "text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-wider",
+                            task.priority === 'high' ? "bg-rose-500/10 text-rose-500" :
+                            task.priority === 'medium' ? "bg-amber-500/10 text-amber-500" :
+                            "bg-emerald-500/10 text-emerald-500"
+                          )}>
+                            {task.priority}
                           </span>
-                        )}
+                          {task.status !== 'done' && isOverdue(task.due_date) && (
+                            <span className="flex items-center gap-1 text-[10px] text-rose-500 font-bold uppercase tracking-wider animate-pulse">
+                              <AlertCircle size={10} />
+                              Overdue
+                            </span>
+                          )}
+                          {task.status !== 'done' && isDueSoon(task.due_date) && (
+                            <span className="flex items-center gap-1 text-[10px] text-amber-500 font-bold uppercase tracking-wider">
+                              <AlertCircle size={10} />
+                              Due Soon
+                            </span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {task.status !== 'done' && (
+                            <button 
+                              onClick={(e) => { e.stopPropagation(); updateTaskStatus(task.id, 'done'); }}
+                              className="p-1 text-zinc-600 hover:text-emerald-500 transition-colors"
+                              title="Mark as done"
+                            >
+                              <CheckSquare size={14} />
+                            </button>
+                          )}
+                          <button className="text-zinc-600 group-hover:text-zinc-400" title="Task details"><MoreVertical size={14} /></button>
+                        </div>
                       </div>
-                      <div className="flex items-center gap-1">
-                        {task.status !== 'done' && (
-                          <button 
-                            onClick={() => updateTaskStatus(task.id, 'done')}
-                            className="p-1 text-zinc-600 hover:text-emerald-500 transition-colors"
-                            title="Mark as done"
-                          >
-                            <CheckSquare size={14} />
-                          </button>
-                        )}
-                        <button className="text-zinc-600 group-hover:text-zinc-400"><MoreVertical size={14} /></button>
-                      </div>
-                    </div>
-                    <h4 className="text-sm font-semibold mb-1">{task.title}</h4>
-                    <p className="text-xs text-zinc-500 line-clamp-2 mb-3">{task.description}</p>
-                    <div className="flex items-center justify-between pt-3 border-t border-zinc-800/50">
-                      <div className="flex items-center gap-1.5 text-zinc-500">
-                        <Clock size={12} />
-                        <span className="text-[10px]">{task.due_date || 'No date'}</span>
-                      </div>
-                      <div className="flex -space-x-2">
-                        <div className="w-5 h-5 rounded-full bg-zinc-800 border-2 border-zinc-900 flex items-center justify-center text-[8px]">D</div>
+                      <h4 className="text-sm font-semibold mb-1">{task.title}</h4>
+                      <p className="text-xs text-zinc-500 line-clamp-2 mb-3">{task.description}</p>
+                      <div className="flex items-center justify-between pt-3 border-t border-zinc-800/50">
+                        <div className="flex items-center gap-3">
+                          <div className="flex items-center gap-1.5 text-zinc-500">
+                            <Clock size={12} />
+                            <span className="text-[10px]">{task.due_date || 'No date'}</span>
+                          </div>
+                          <SubtaskProgress subtasks={task.subtasks} />
+                          <RecurrenceBadge recurrence={task.recurrence} />
+                          <TrackedTime minutes={task.tracked_minutes} />
+                        </div>
+                        <div className="flex -space-x-2">
+                          <div className="w-5 h-5 rounded-full bg-zinc-800 border-2 border-zinc-900 flex items-center justify-center text-[8px]" title={userName}>
+                            {userName.charAt(0).toUpperCase()}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </motion.div>
+                    </motion.div>
+                  </div>
                 ))}
               </div>
             </div>
@@ -601,7 +2335,7 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
                   <td className="px-6 py-4">
                     <div className="flex flex-col">
                       <div className="flex items-center gap-2">
-                        <p className="text-sm font-medium">{task.title}</p>
+                        <button onClick={() => setSelectedTaskId(task.id)} className="text-sm font-medium text-left hover:text-brand-primary transition-colors">{task.title}</button>
                         {task.status !== 'done' && isOverdue(task.due_date) && (
                           <span className="text-[10px] text-rose-500 font-bold uppercase tracking-wider px-1.5 py-0.5 bg-rose-500/10 rounded">Overdue</span>
                         )}
@@ -610,6 +2344,11 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
                         )}
                       </div>
                       <p className="text-xs text-zinc-500">{task.description}</p>
+                      <div className="mt-1 flex items-center gap-3">
+                        <SubtaskProgress subtasks={task.subtasks} />
+                        <RecurrenceBadge recurrence={task.recurrence} />
+                        <TrackedTime minutes={task.tracked_minutes} />
+                      </div>
                     </div>
                   </td>
                   <td className="px-6 py-4">
@@ -645,7 +2384,7 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
                           <CheckSquare size={16} />
                         </button>
                       )}
-                      <button className="text-zinc-500 hover:text-zinc-300"><MoreVertical size={16} /></button>
+                      <button onClick={() => setSelectedTaskId(task.id)} className="text-zinc-500 hover:text-zinc-300" title="Task details"><MoreVertical size={16} /></button>
                     </div>
                   </td>
                 </tr>
@@ -654,105 +2393,66 @@ function TaskManager({ tasks, setTasks, onAddTask }: { tasks: Task[], setTasks:
           </table>
         </Card>
       )}
+
+      <TaskDrawer
+        task={selectedTask}
+        onClose={() => setSelectedTaskId(null)}
+        onSave={saveTask}
+        onDelete={deleteTask}
+        onTaskUpdated={replaceTask}
+      />
     </div>
   );
 }
 
-function LectureTracker({ lectures, onAddLecture, onMarkAttendance }: { lectures: Lecture[], onAddLecture: () => void, onMarkAttendance: (id: number, status: string) => void }) {
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h1 className="text-2xl font-bold font-display">Lecture Tracker</h1>
-          <p className="text-zinc-500 text-sm">Track your attendance and syllabus progress.</p>
-        </div>
-        <button 
-          onClick={onAddLecture}
-          className="px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors flex items-center gap-2"
-        >
-          <Plus size={16} />
-          <span>Add Subject</span>
-        </button>
-      </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {lectures.length > 0 ? lectures.map((lecture) => (
-          <Card key={lecture.id} className="group hover:border-brand-primary/30 transition-all">
-            <div className="flex items-start justify-between mb-4">
-              <div className="w-12 h-12 rounded-2xl bg-brand-primary/10 flex items-center justify-center text-brand-primary">
-                <BookOpen size={24} />
-              </div>
-              <div className="text-right">
-                <p className="text-xs text-zinc-500 uppercase tracking-wider font-bold">Status</p>
-                <p className={cn(
-                  "text-lg font-bold",
-                  lecture.attendance_status === 'present' ? "text-emerald-500" : 
-                  lecture.attendance_status === 'absent' ? "text-rose-500" : "text-amber-500"
-                )}>
-                  {lecture.attendance_status || 'Pending'}
-                </p>
-              </div>
-            </div>
-            <h3 className="text-lg font-bold mb-1">{lecture.subject}</h3>
-            <p className="text-xs text-zinc-500 mb-4">{lecture.topic || 'No topic specified'}</p>
-            
-            <div className="space-y-2">
-              <div className="flex items-center justify-between text-xs">
-                <span className="text-zinc-400">Date</span>
-                <span className="font-bold">{lecture.date}</span>
-              </div>
-            </div>
+function TaskDrawer({
+  task,
+  onClose,
+  onSave,
+  onDelete,
+  onTaskUpdated
+}: {
+  task: Task | null,
+  onClose: () => void,
+  onSave: (id: number, changes: Partial<Task>) => void,
+  onDelete: (id: number) => void,
+  onTaskUpdated: (task: Task) => void
+}) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState<Task['priority']>('medium');
+  const [status, setStatus] = useState<Task['status']>('todo');
+  const [dueDate, setDueDate] = useState('');
+  const [autoComplete, setAutoComplete] = useState(false);
+  const [recurrence, setRecurrence] = useState<string | null>(null);
 
-            <div className="mt-6 pt-4 border-t border-zinc-800/50 flex items-center gap-2">
-              <button 
-                onClick={() => onMarkAttendance(lecture.id, 'present')}
-                className={cn(
-                  "flex-1 text-xs font-medium py-2 rounded-lg transition-colors",
-                  lecture.attendance_status === 'present' ? "bg-emerald-500 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
-                )}
-              >
-                Present
-              </button>
-              <button 
-                onClick={() => onMarkAttendance(lecture.id, 'absent')}
-                className={cn(
-                  "flex-1 text-xs font-medium py-2 rounded-lg transition-colors",
-                  lecture.attendance_status === 'absent' ? "bg-rose-500 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
-                )}
-              >
-                Absent
-              </button>
-            </div>
-          </Card>
-        )) : (
-          <div className="col-span-full py-12 text-center text-zinc-500 border border-dashed border-zinc-800 rounded-2xl">
-            <BookOpen size={48} className="mx-auto mb-4 opacity-20" />
-            <p>No lectures added yet.</p>
-            <button onClick={onAddLecture} className="mt-4 text-brand-primary font-medium hover:underline">Add your first lecture</button>
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
+  // Only reset the form when a different task is opened, so checklist updates don't discard unsaved edits
+  useEffect(() => {
+    if (!task) return;
+    setTitle(task.title);
+    setDescription(task.description || '');
+    setPriority(task.priority);
+    setStatus(task.status);
+    setDueDate(task.due_date || '');
+    setAutoComplete(!!task.auto_complete);
+    setRecurrence(task.recurrence || null);
+  }, [task?.id]);
 
-function LectureModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () => void, onAdd: (lecture: any) => void }) {
-  const [subject, setSubject] = useState('');
-  const [topic, setTopic] = useState('');
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  // The checklist can move the task to done on the server
+  useEffect(() => {
+    if (task) setStatus(task.status);
+  }, [task?.status]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd({ subject, topic, date });
-    setSubject('');
-    setTopic('');
-    setDate(new Date().toISOString().split('T')[0]);
+    if (!task) return;
+    onSave(task.id, { title, description, priority, status, due_date: dueDate, auto_complete: autoComplete ? 1 : 0, recurrence });
   };
 
   return (
     <AnimatePresence>
-      {isOpen && (
-        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      {task && (
+        <div className="fixed inset-0 z-[100] flex justify-end">
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -760,46 +2460,1780 @@ function LectureModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: ()
             onClick={onClose}
             className="absolute inset-0 bg-black/60 backdrop-blur-sm"
           />
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95, y: 20 }}
-            animate={{ opacity: 1, scale: 1, y: 0 }}
-            exit={{ opacity: 0, scale: 0.95, y: 20 }}
-            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl"
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+            className="relative w-full max-w-md h-full glass-card border-l border-zinc-800 p-8 shadow-2xl overflow-y-auto custom-scrollbar"
           >
-            <h2 className="text-2xl font-bold font-display mb-6">Add New Lecture</h2>
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold font-display">Task Details</h2>
+              <button onClick={onClose} className="p-1.5 text-zinc-500 hover:text-zinc-100 hover:bg-zinc-800 rounded-lg">
+                <X size={18} />
+              </button>
+            </div>
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
-                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Subject</label>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Task Title</label>
                 <input
                   required
                   type="text"
-                  value={subject}
-                  onChange={(e) => setSubject(e.target.value)}
-                  placeholder="e.g. Machine Learning"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
                   className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
                 />
               </div>
               <div>
-                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Topic</label>
-                <input
-                  type="text"
-                  value={topic}
-                  onChange={(e) => setTopic(e.target.value)}
-                  placeholder="What's being covered?"
-                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Description</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="Add some details..."
+                  rows={6}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all resize-none"
                 />
               </div>
-              <div>
-                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Date</label>
-                <div className="relative">
-                  <input
-                    type="date"
-                    value={date}
-                    onChange={(e) => setDate(e.target.value)}
-                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all appearance-none"
-                  />
-                  <Calendar className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" size={18} />
-                </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Status</label>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as Task['status'])}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  >
+                    <option value="todo">To Do</option>
+                    <option value="in-progress">In Progress</option>
+                    <option value="done">Done</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Priority</label>
+                  <select
+                    value={priority}
+                    onChange={(e) => setPriority(e.target.value as Task['priority'])}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  >
+                    <option value="low">Low</option>
+                    <option value="medium">Medium</option>
+                    <option value="high">High</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Due Date</label>
+                <div className="relative">
+                  <input
+                    type="date"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all appearance-none"
+                  />
+                  <Calendar className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" size={18} />
+                </div>
+              </div>
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+              <SubtaskChecklist task={task} onTaskUpdated={onTaskUpdated} />
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoComplete}
+                  onChange={(e) => setAutoComplete(e.target.checked)}
+                  className="accent-brand-primary"
+                />
+                Move to done when every checklist item is checked
+              </label>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => onDelete(task.id)}
+                  className="px-4 py-3 rounded-xl border border-rose-500/30 text-rose-500 text-sm font-medium hover:bg-rose-500/10 transition-colors flex items-center gap-2"
+                >
+                  <Trash2 size={16} />
+                  Delete
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20"
+                >
+                  Save Changes
+                </button>
+              </div>
+            </form>
+          </motion.aside>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function SubtaskChecklist({ task, onTaskUpdated }: { task: Task, onTaskUpdated: (task: Task) => void }) {
+  const [newItem, setNewItem] = useState('');
+  const subtasks = task.subtasks || [];
+  const done = subtasks.filter(st => st.completed).length;
+
+  const request = async (path: string, method: string, body?: object) => {
+    try {
+      const res = await fetch(`/api/tasks/${task.id}/subtasks${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onTaskUpdated(data);
+    } catch (error) {
+      console.error("Checklist error:", error);
+    }
+  };
+
+  const addItem = () => {
+    if (!newItem.trim()) return;
+    request('', 'POST', { title: newItem });
+    setNewItem('');
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    const ids = subtasks.map(st => st.id);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    request('/reorder', 'POST', { ids });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1.5">
+        <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider">Checklist</label>
+        {subtasks.length > 0 && <span className="text-xs text-zinc-500 tabular-nums">{done}/{subtasks.length} done</span>}
+      </div>
+      <div className="space-y-1">
+        {subtasks.map((subtask, index) => (
+          <div key={subtask.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-zinc-800/40 group">
+            <input
+              type="checkbox"
+              checked={!!subtask.completed}
+              onChange={(e) => request(`/${subtask.id}`, 'PATCH', { completed: e.target.checked })}
+              className="accent-brand-primary"
+            />
+            <span className={cn("flex-1 text-sm", subtask.completed && "line-through text-zinc-500")}>{subtask.title}</span>
+            <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+              <button type="button" disabled={index === 0} onClick={() => moveItem(index, -1)} className="p-1 text-zinc-500 hover:text-zinc-200 disabled:opacity-30" title="Move up">
+                <ChevronUp size={14} />
+              </button>
+              <button type="button" disabled={index === subtasks.length - 1} onClick={() => moveItem(index, 1)} className="p-1 text-zinc-500 hover:text-zinc-200 disabled:opacity-30" title="Move down">
+                <ChevronDown size={14} />
+              </button>
+              <button type="button" onClick={() => request(`/${subtask.id}`, 'DELETE')} className="p-1 text-zinc-500 hover:text-rose-500" title="Remove item">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addItem(); } }}
+          placeholder="Add a step..."
+          className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-brand-primary/20"
+        />
+        <button type="button" onClick={addItem} className="p-2 text-zinc-400 hover:text-brand-primary" title="Add item">
+          <Plus size={16} />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function LectureTracker({
+  lectures,
+  threshold,
+  onAddLecture,
+  onMarkAttendance,
+  onUpdateLecture,
+  onTimetableChanged,
+  onUpdateThreshold
+}: {
+  lectures: Lecture[],
+  threshold: number,
+  onAddLecture: () => void,
+  onMarkAttendance: (id: number, status: string) => void,
+  onUpdateLecture: (id: number, changes: Partial<Lecture>) => void,
+  onTimetableChanged: () => void,
+  onUpdateThreshold: (percent: number) => void
+}) {
+  const [tab, setTab] = useState<'lectures' | 'syllabus' | 'timetable'>('lectures');
+  const [syllabus, setSyllabus] = useState<SubjectSyllabus[]>([]);
+
+  const fetchSyllabus = async () => {
+    try {
+      const data = await fetchJson<SubjectSyllabus[]>('/api/syllabus');
+      if (data) setSyllabus(data);
+    } catch (error) {
+      console.error("Fetch syllabus error:", error);
+    }
+  };
+
+  // Linking topics or completing a lecture changes coverage
+  useEffect(() => {
+    fetchSyllabus();
+  }, [lectures]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold font-display">Lecture Tracker</h1>
+          <p className="text-zinc-500 text-sm">Track your attendance and syllabus progress.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-zinc-900 border border-zinc-800 rounded-xl p-1">
+            {(['lectures', 'syllabus', 'timetable'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={cn(
+                  "px-3 py-1.5 rounded-lg text-xs font-medium capitalize transition-colors",
+                  tab === option ? "bg-zinc-800 text-white" : "text-zinc-500 hover:text-zinc-300"
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button 
+            onClick={onAddLecture}
+            className="px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors flex items-center gap-2"
+          >
+            <Plus size={16} />
+            <span>Add Subject</span>
+          </button>
+        </div>
+      </div>
+
+      {tab === 'timetable' && <TimetablePlanner onChanged={onTimetableChanged} />}
+      {tab === 'syllabus' && (
+        <SyllabusPlanner
+          syllabus={syllabus}
+          subjects={[...new Set(lectures.map(l => l.subject))]}
+          onChanged={fetchSyllabus}
+        />
+      )}
+      {tab === 'lectures' && (
+      <>
+      <AttendanceSummary lectures={lectures} threshold={threshold} onUpdateThreshold={onUpdateThreshold} />
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {lectures.length > 0 ? lectures.map((lecture) => (
+          <Card key={lecture.id} className="group hover:border-brand-primary/30 transition-all">
+            <div className="flex items-start justify-between mb-4">
+              <div className="w-12 h-12 rounded-2xl bg-brand-primary/10 flex items-center justify-center text-brand-primary">
+                <BookOpen size={24} />
+              </div>
+              <div className="text-right">
+                <p className="text-xs text-zinc-500 uppercase tracking-wider font-bold">Status</p>
+                <p className={cn(
+                  "text-lg font-bold",
+                  lecture.attendance_status === 'present' ? "text-emerald-500" : 
+                  lecture.attendance_status === 'absent' ? "text-rose-500" : "text-amber-500"
+                )}>
+                  {lecture.attendance_status || 'Pending'}
+                </p>
+              </div>
+            </div>
+            <h3 className="text-lg font-bold mb-1">{lecture.subject}</h3>
+            <p className="text-xs text-zinc-500 mb-4">{lecture.topic || 'No topic specified'}</p>
+            
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-zinc-400">Date</span>
+                <span className="font-bold">{lecture.date}</span>
+              </div>
+              {lecture.start_time && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-zinc-400">Time</span>
+                  <span className="font-bold">{lecture.start_time}{lecture.end_time && ` – ${lecture.end_time}`}</span>
+                </div>
+              )}
+              {(lecture.room || lecture.lecturer) && (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-zinc-400">Where</span>
+                  <span className="font-bold truncate">{[lecture.room, lecture.lecturer].filter(Boolean).join(' · ')}</span>
+                </div>
+              )}
+            </div>
+
+            <LectureTopics
+              lecture={lecture}
+              units={syllabus.find(s => s.subject === lecture.subject)?.units || []}
+              onUpdate={(changes) => onUpdateLecture(lecture.id, changes)}
+            />
+
+            <div className="mt-6 pt-4 border-t border-zinc-800/50 flex items-center gap-2">
+              <button 
+                onClick={() => onMarkAttendance(lecture.id, 'present')}
+                className={cn(
+                  "flex-1 text-xs font-medium py-2 rounded-lg transition-colors",
+                  lecture.attendance_status === 'present' ? "bg-emerald-500 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+                )}
+              >
+                Present
+              </button>
+              <button 
+                onClick={() => onMarkAttendance(lecture.id, 'absent')}
+                className={cn(
+                  "flex-1 text-xs font-medium py-2 rounded-lg transition-colors",
+                  lecture.attendance_status === 'absent' ? "bg-rose-500 text-white" : "bg-zinc-800 text-zinc-400 hover:bg-zinc-700"
+                )}
+              >
+                Absent
+              </button>
+            </div>
+          </Card>
+        )) : (
+          <div className="col-span-full py-12 text-center text-zinc-500 border border-dashed border-zinc-800 rounded-2xl">
+            <BookOpen size={48} className="mx-auto mb-4 opacity-20" />
+            <p>No lectures added yet.</p>
+            <button onClick={onAddLecture} className="mt-4 text-brand-primary font-medium hover:underline">Add your first lecture</button>
+          </div>
+        )}
+      </div>
+      </>
+      )}
+    </div>
+  );
+}
+
+function LectureTopics({
+  lecture,
+  units,
+  onUpdate
+}: {
+  lecture: Lecture,
+  units: SyllabusUnit[],
+  onUpdate: (changes: Partial<Lecture>) => void
+}) {
+  const topicIds = lecture.topic_ids || [];
+  const topics = units.flatMap(unit => unit.topics);
+  const linked = topics.filter(topic => topicIds.includes(topic.id));
+  const available = topics.filter(topic => !topicIds.includes(topic.id));
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap gap-1.5">
+        {linked.map(topic => (
+          <span key={topic.id} className="flex items-center gap-1 text-[10px] px-2 py-1 rounded-lg bg-zinc-800 text-zinc-300">
+            {topic.title}
+            <button onClick={() => onUpdate({ topic_ids: topicIds.filter(id => id !== topic.id) })} className="text-zinc-500 hover:text-rose-500">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => onUpdate({ topic_ids: [...topicIds, Number(e.target.value)] })}
+            className="flex-1 min-w-0 bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-400 focus:outline-none"
+          >
+            <option value="" disabled>Link syllabus topic…</option>
+            {units.map(unit => (
+              <optgroup key={unit.id} label={unit.title}>
+                {unit.topics.filter(topic => !topicIds.includes(topic.id)).map(topic => (
+                  <option key={topic.id} value={topic.id}>{topic.title}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={() => onUpdate({ completed: !lecture.completed })}
+          className={cn(
+            "flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-lg transition-colors",
+            lecture.completed ? "bg-brand-primary/10 text-brand-primary" : "text-zinc-500 hover:text-zinc-300"
+          )}
+          title="Covered topics count towards syllabus progress"
+        >
+          <CheckCheck size={14} />
+          {lecture.completed ? 'Covered' : 'Mark covered'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function SyllabusPlanner({
+  syllabus,
+  subjects,
+  onChanged
+}: {
+  syllabus: SubjectSyllabus[],
+  subjects: string[],
+  onChanged: () => void
+}) {
+  const [unitForm, setUnitForm] = useState({ subject: '', title: '' });
+  const [topicDrafts, setTopicDrafts] = useState<Record<number, string>>({});
+
+  const mutate = async (url: string, method: string, body?: any) => {
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body && JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      onChanged();
+    } catch (error) {
+      console.error("Syllabus error:", error);
+    }
+  };
+
+  const handleAddUnit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await mutate('/api/syllabus/units', 'POST', unitForm);
+    setUnitForm(form => ({ ...form, title: '' }));
+  };
+
+  const handleAddTopic = async (e: React.FormEvent, unitId: number) => {
+    e.preventDefault();
+    if (!topicDrafts[unitId]?.trim()) return;
+    await mutate(`/api/syllabus/units/${unitId}/topics`, 'POST', { title: topicDrafts[unitId].trim() });
+    setTopicDrafts(drafts => ({ ...drafts, [unitId]: '' }));
+  };
+
+  const allSubjects = [...new Set([...subjects, ...syllabus.map(s => s.subject)])];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <form onSubmit={handleAddUnit} className="flex flex-col md:flex-row gap-3">
+          <input
+            required
+            list="syllabus-subjects"
+            placeholder="Subject"
+            value={unitForm.subject}
+            onChange={(e) => setUnitForm({ ...unitForm, subject: e.target.value })}
+            className="md:w-56 bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+          />
+          <datalist id="syllabus-subjects">
+            {allSubjects.map(subject => <option key={subject} value={subject} />)}
+          </datalist>
+          <input
+            required
+            placeholder="Unit title, e.g. Unit 1: Relational Model"
+            value={unitForm.title}
+            onChange={(e) => setUnitForm({ ...unitForm, title: e.target.value })}
+            className="flex-1 bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+          />
+          <button type="submit" className="px-4 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors">
+            Add Unit
+          </button>
+        </form>
+      </Card>
+
+      {syllabus.length === 0 && (
+        <div className="py-12 text-center text-zinc-500 border border-dashed border-zinc-800 rounded-2xl">
+          <ListChecks size={48} className="mx-auto mb-4 opacity-20" />
+          <p>Add units and topics to track what's left before exams.</p>
+        </div>
+      )}
+
+      {syllabus.map(subject => {
+        const coveredPercent = subject.total > 0 ? (subject.covered / subject.total) * 100 : 0;
+        const revisedPercent = subject.total > 0 ? (subject.revised / subject.total) * 100 : 0;
+        return (
+          <Card
+            key={subject.subject}
+            title={subject.subject}
+            subtitle={`${subject.covered} of ${subject.total} topics covered · ${subject.revised} revised`}
+            icon={BookOpen}
+          >
+            <div className="relative h-2 w-full bg-zinc-800 rounded-full overflow-hidden mb-6">
+              <div className="absolute inset-y-0 left-0 bg-brand-primary/40 rounded-full" style={{ width: `${coveredPercent}%` }} />
+              <div className="absolute inset-y-0 left-0 bg-emerald-500 rounded-full" style={{ width: `${revisedPercent}%` }} />
+            </div>
+
+            <div className="space-y-5">
+              {subject.units.map(unit => (
+                <div key={unit.id} className="group/unit">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm font-semibold">{unit.title}</p>
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-zinc-500">
+                        {unit.topics.filter(topic => topic.covered_at).length}/{unit.topics.length}
+                      </span>
+                      <button
+                        onClick={() => confirm(`Delete "${unit.title}" and its topics?`) && mutate(`/api/syllabus/units/${unit.id}`, 'DELETE')}
+                        className="opacity-0 group-hover/unit:opacity-100 text-zinc-500 hover:text-rose-500 transition-all"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    {unit.topics.map(topic => (
+                      <div key={topic.id} className="group/topic flex items-center gap-3 px-3 py-1.5 rounded-lg hover:bg-zinc-800/30">
+                        <input
+                          type="checkbox"
+                          checked={!!topic.covered_at}
+                          onChange={(e) => mutate(`/api/syllabus/topics/${topic.id}`, 'PATCH', { covered: e.target.checked })}
+                          className="accent-brand-primary"
+                        />
+                        <span className={cn("flex-1 text-sm", topic.covered_at ? "text-zinc-400" : "text-zinc-200")}>{topic.title}</span>
+                        {topic.lecture_ids.length > 0 && (
+                          <span className="text-[10px] text-zinc-500">{topic.lecture_ids.length} lecture{topic.lecture_ids.length > 1 && 's'}</span>
+                        )}
+                        <button
+                          onClick={() => mutate(`/api/syllabus/topics/${topic.id}`, 'PATCH', { revised: !topic.revised_at })}
+                          className={cn(
+                            "text-[10px] px-1.5 py-0.5 rounded font-bold uppercase tracking-wider transition-colors",
+                            topic.revised_at ? "bg-emerald-500/10 text-emerald-500" : "bg-zinc-800 text-zinc-500 hover:text-zinc-300"
+                          )}
+                        >
+                          Revised
+                        </button>
+                        <button
+                          onClick={() => mutate(`/api/syllabus/topics/${topic.id}`, 'DELETE')}
+                          className="opacity-0 group-hover/topic:opacity-100 text-zinc-500 hover:text-rose-500 transition-all"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <form onSubmit={(e) => handleAddTopic(e, unit.id)} className="mt-1 px-3">
+                    <input
+                      placeholder="Add topic…"
+                      value={topicDrafts[unit.id] || ''}
+                      onChange={(e) => setTopicDrafts({ ...topicDrafts, [unit.id]: e.target.value })}
+                      className="w-full bg-transparent text-sm py-1.5 text-zinc-400 placeholder:text-zinc-600 focus:outline-none"
+                    />
+                  </form>
+                </div>
+              ))}
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
+
+function AttendanceSummary({
+  lectures,
+  threshold,
+  onUpdateThreshold
+}: {
+  lectures: Lecture[],
+  threshold: number,
+  onUpdateThreshold: (percent: number) => void
+}) {
+  const [subjects, setSubjects] = useState<SubjectAttendance[]>([]);
+  const [isEditingThreshold, setIsEditingThreshold] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState(String(threshold));
+
+  useEffect(() => {
+    const fetchAttendance = async () => {
+      try {
+        const data = await fetchJson<{ subjects: SubjectAttendance[] }>('/api/attendance');
+        if (data) setSubjects(data.subjects);
+      } catch (error) {
+        console.error("Attendance summary error:", error);
+      }
+    };
+    fetchAttendance();
+  }, [lectures, threshold]);
+
+  const saveThreshold = () => {
+    const percent = Number(thresholdInput);
+    if (percent > 0 && percent <= 100) onUpdateThreshold(percent);
+    setIsEditingThreshold(false);
+  };
+
+  const describe = (subject: SubjectAttendance) => {
+    if (subject.held === 0) return 'No attendance marked yet';
+    if (!subject.belowThreshold) {
+      return subject.canMiss > 0 ? `Can miss the next ${subject.canMiss}` : 'Attend the next lecture to stay above';
+    }
+    if (!subject.recoverable) return `Can't reach ${threshold}% this term`;
+    return `Must attend the next ${subject.mustAttend}`;
+  };
+
+  if (subjects.length === 0) return null;
+
+  return (
+    <Card
+      title="Attendance by Subject"
+      subtitle={`Minimum required: ${threshold}%`}
+      icon={Target}
+    >
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-5">
+        {subjects.map(subject => (
+          <div key={subject.subject}>
+            <div className="flex items-center justify-between text-sm mb-1.5">
+              <span className="font-semibold flex items-center gap-2 min-w-0">
+                {subject.belowThreshold && <AlertCircle size={14} className="text-rose-500 shrink-0" />}
+                <span className="truncate">{subject.subject}</span>
+              </span>
+              <span className={cn("font-bold", subject.belowThreshold ? "text-rose-500" : "text-emerald-500")}>
+                {subject.percent === null ? '—' : `${subject.percent}%`}
+              </span>
+            </div>
+            <div className="relative h-2 w-full bg-zinc-800 rounded-full overflow-hidden">
+              <div
+                className={cn("h-full rounded-full", subject.belowThreshold ? "bg-rose-500" : "bg-emerald-500")}
+                style={{ width: `${subject.percent ?? 0}%` }}
+              />
+              <div className="absolute top-0 h-full w-0.5 bg-zinc-300" style={{ left: `${threshold}%` }} />
+            </div>
+            <div className="flex items-center justify-between mt-1.5 text-xs text-zinc-500">
+              <span>{subject.present}/{subject.held} attended{subject.upcoming > 0 && ` · ${subject.upcoming} left this term`}</span>
+              <span className={cn(subject.belowThreshold && "text-rose-400")}>{describe(subject)}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end mt-4 text-xs">
+        {isEditingThreshold ? (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              max={100}
+              value={thresholdInput}
+              onChange={(e) => setThresholdInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveThreshold()}
+              className="w-20 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none"
+            />
+            <button onClick={saveThreshold} className="text-brand-primary font-medium hover:underline">Save</button>
+          </div>
+        ) : (
+          <button
+            onClick={() => { setThresholdInput(String(threshold)); setIsEditingThreshold(true); }}
+            className="text-zinc-500 hover:text-zinc-300"
+          >
+            Change threshold
+          </button>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+// Monday-first, matching the week grouping used elsewhere
+const TIMETABLE_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+function TimetablePlanner({ onChanged }: { onChanged: () => void }) {
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [slots, setSlots] = useState<TimetableSlot[]>([]);
+  const [termId, setTermId] = useState<number | null>(null);
+  const [isAddingTerm, setIsAddingTerm] = useState(false);
+  const [termForm, setTermForm] = useState({ name: '', start_date: '', end_date: '' });
+  const [slotForm, setSlotForm] = useState({ subject: '', day_of_week: 1, start_time: '09:00', end_time: '10:00', room: '', lecturer: '' });
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchTimetable = async () => {
+    try {
+      const data = await fetchJson<{ terms: Term[], slots: TimetableSlot[] }>('/api/timetable');
+      if (!data) return;
+      setTerms(data.terms);
+      setSlots(data.slots);
+      setTermId(current => data.terms.some((t: Term) => t.id === current) ? current : data.terms[0]?.id ?? null);
+    } catch (error) {
+      console.error("Fetch timetable error:", error);
+    }
+  };
+
+  useEffect(() => {
+    fetchTimetable();
+  }, []);
+
+  const mutate = async (url: string, method: string, body?: any) => {
+    setError(null);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body && JSON.stringify(body)
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      await fetchTimetable();
+      onChanged();
+      return await res.json();
+    } catch (error: any) {
+      console.error("Timetable error:", error);
+      setError(error.message);
+    }
+  };
+
+  const handleAddTerm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await mutate('/api/timetable/terms', 'POST', termForm);
+    if (data) {
+      setTermId(Number(data.id));
+      setTermForm({ name: '', start_date: '', end_date: '' });
+      setIsAddingTerm(false);
+    }
+  };
+
+  const handleAddSlot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await mutate('/api/timetable/slots', 'POST', { ...slotForm, term_id: termId });
+    if (data) setSlotForm(form => ({ ...form, subject: '', room: '', lecturer: '' }));
+  };
+
+  const handleImportCalendar = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch('/api/calendar/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/calendar' },
+        body: await file.text()
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setNotice(`Imported ${data.imported} new and updated ${data.updated} existing lectures from ${file.name}.`);
+      onChanged();
+    } catch (error: any) {
+      console.error("Calendar import error:", error);
+      setError(error.message);
+    }
+  };
+
+  const handleDeleteTerm = (term: Term) => {
+    if (!confirm(`Delete "${term.name}" and its upcoming unmarked lectures?`)) return;
+    mutate(`/api/timetable/terms/${term.id}`, 'DELETE');
+  };
+
+  const term = terms.find(t => t.id === termId);
+  const termSlots = slots.filter(slot => slot.term_id === termId);
+  const inputClass = "w-full bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all";
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={termId ?? ''}
+            onChange={(e) => setTermId(Number(e.target.value))}
+            disabled={terms.length === 0}
+            className="bg-zinc-900 border border-zinc-800 rounded-xl px-3 py-2 text-sm focus:outline-none"
+          >
+            {terms.length === 0 && <option value="">No terms yet</option>}
+            {terms.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+          {term && (
+            <span className="text-xs text-zinc-500">
+              {format(parseISO(term.start_date), 'MMM d, yyyy')} – {format(parseISO(term.end_date), 'MMM d, yyyy')}
+            </span>
+          )}
+          <div className="flex-1" />
+          {term && (
+            <button onClick={() => handleDeleteTerm(term)} className="p-2 rounded-lg text-zinc-500 hover:text-rose-500 hover:bg-zinc-800 transition-colors" title="Delete term">
+              <Trash2 size={16} />
+            </button>
+          )}
+          <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleImportCalendar} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-2 rounded-xl text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors flex items-center gap-2"
+            title="Import lectures from a calendar export"
+          >
+            <Upload size={14} />
+            <span>Import .ics</span>
+          </button>
+          <a
+            href="/api/calendar.ics"
+            download="productivity.ics"
+            className="px-3 py-2 rounded-xl text-xs font-medium text-zinc-400 hover:text-white hover:bg-zinc-800 transition-colors flex items-center gap-2"
+            title="Tasks and lectures as a calendar feed"
+          >
+            <Download size={14} />
+            <span>Export .ics</span>
+          </a>
+          <button
+            onClick={() => setIsAddingTerm(!isAddingTerm)}
+            className="px-3 py-2 bg-zinc-800 text-white rounded-xl text-xs font-medium hover:bg-zinc-700 transition-colors flex items-center gap-2"
+          >
+            <Plus size={14} />
+            <span>New Term</span>
+          </button>
+        </div>
+
+        {(isAddingTerm || terms.length === 0) && (
+          <form onSubmit={handleAddTerm} className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-4">
+            <input required placeholder="e.g. Semester 5" value={termForm.name} onChange={(e) => setTermForm({ ...termForm, name: e.target.value })} className={inputClass} />
+            <input required type="date" value={termForm.start_date} onChange={(e) => setTermForm({ ...termForm, start_date: e.target.value })} className={inputClass} />
+            <input required type="date" value={termForm.end_date} onChange={(e) => setTermForm({ ...termForm, end_date: e.target.value })} className={inputClass} />
+            <button type="submit" className="px-4 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors">
+              Create Term
+            </button>
+          </form>
+        )}
+
+        {term && (
+          <form onSubmit={handleAddSlot} className="grid grid-cols-2 md:grid-cols-7 gap-3 mt-4">
+            <input required placeholder="Subject" value={slotForm.subject} onChange={(e) => setSlotForm({ ...slotForm, subject: e.target.value })} className={cn(inputClass, "col-span-2 md:col-span-1")} />
+            <select value={slotForm.day_of_week} onChange={(e) => setSlotForm({ ...slotForm, day_of_week: Number(e.target.value) })} className={inputClass}>
+              {TIMETABLE_DAYS.map(day => <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>)}
+            </select>
+            <input required type="time" value={slotForm.start_time} onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })} className={inputClass} />
+            <input required type="time" value={slotForm.end_time} onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })} className={inputClass} />
+            <input placeholder="Room" value={slotForm.room} onChange={(e) => setSlotForm({ ...slotForm, room: e.target.value })} className={inputClass} />
+            <input placeholder="Lecturer" value={slotForm.lecturer} onChange={(e) => setSlotForm({ ...slotForm, lecturer: e.target.value })} className={inputClass} />
+            <button type="submit" className="px-4 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors">
+              Add Slot
+            </button>
+          </form>
+        )}
+        {error && <p className="text-xs text-rose-500 mt-3">{error}</p>}
+        {notice && <p className="text-xs text-emerald-500 mt-3">{notice}</p>}
+      </Card>
+
+      {term && (
+        <div className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-4">
+          {TIMETABLE_DAYS.map(day => (
+            <div key={day} className="space-y-3">
+              <p className="text-xs font-bold text-zinc-500 uppercase tracking-wider">{WEEKDAY_LABELS[day]}</p>
+              {termSlots.filter(slot => slot.day_of_week === day).map(slot => (
+                <div key={slot.id} className="group p-3 rounded-xl bg-zinc-800/30 border border-zinc-800/50 hover:border-zinc-700 transition-colors">
+                  <div className="flex items-start justify-between gap-2">
+                    <p className="text-xs font-medium text-brand-primary">{slot.start_time} – {slot.end_time}</p>
+                    <button
+                      onClick={() => mutate(`/api/timetable/slots/${slot.id}`, 'DELETE')}
+                      className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-rose-500 transition-all"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                  <p className="text-sm font-semibold mt-1">{slot.subject}</p>
+                  {slot.room && (
+                    <p className="text-xs text-zinc-500 flex items-center gap-1 mt-1"><MapPin size={12} />{slot.room}</p>
+                  )}
+                  {slot.lecturer && (
+                    <p className="text-xs text-zinc-500 flex items-center gap-1 mt-1"><User size={12} />{slot.lecturer}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InternshipTracker({
+  logs,
+  targetHours,
+  onAddLog,
+  onEditLog,
+  onDeleteLog,
+  onUpdateTarget
+}: {
+  logs: InternshipLog[],
+  targetHours: number,
+  onAddLog: () => void,
+  onEditLog: (log: InternshipLog) => void,
+  onDeleteLog: (id: number) => void,
+  onUpdateTarget: (hours: number) => void
+}) {
+  const [isEditingTarget, setIsEditingTarget] = useState(false);
+  const [targetInput, setTargetInput] = useState(String(targetHours));
+
+  const totalHours = logs.reduce((sum, log) => sum + (log.hours || 0), 0);
+  const remainingHours = Math.max(targetHours - totalHours, 0);
+  const progress = targetHours > 0 ? Math.min((totalHours / targetHours) * 100, 100) : 0;
+
+  // Group entries by the Monday of their week, newest week first
+  const weeks = logs.reduce<Record<string, InternshipLog[]>>((acc, log) => {
+    const weekStart = format(startOfWeek(parseISO(log.date), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    (acc[weekStart] ||= []).push(log);
+    return acc;
+  }, {});
+  const sortedWeeks = Object.keys(weeks).sort((a, b) => b.localeCompare(a));
+
+  const currentWeek = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  const thisWeekHours = (weeks[currentWeek] || []).reduce((sum, log) => sum + (log.hours || 0), 0);
+
+  const saveTarget = () => {
+    const hours = Number(targetInput);
+    if (hours > 0) onUpdateTarget(hours);
+    setIsEditingTarget(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold font-display">Internship Tracker</h1>
+          <p className="text-zinc-500 text-sm">Log your daily work and track progress towards required hours.</p>
+        </div>
+        <button 
+          onClick={onAddLog}
+          className="px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors flex items-center gap-2"
+        >
+          <Plus size={16} />
+          <span>Log Hours</span>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatCard label="Hours Logged" value={totalHours.toFixed(1)} icon={Clock} color="bg-blue-500/10 text-blue-500" />
+        <StatCard label="This Week" value={thisWeekHours.toFixed(1)} icon={Calendar} color="bg-indigo-500/10 text-indigo-500" />
+        <StatCard label="Hours Remaining" value={remainingHours.toFixed(1)} icon={Target} color="bg-amber-500/10 text-amber-500" />
+      </div>
+
+      <Card title="Target Progress" subtitle={`${totalHours.toFixed(1)} of ${targetHours} hours completed`} icon={Target}>
+        <div className="h-3 w-full bg-zinc-800 rounded-full overflow-hidden">
+          <motion.div
+            initial={{ width: 0 }}
+            animate={{ width: `${progress}%` }}
+            className={cn("h-full rounded-full", progress >= 100 ? "bg-emerald-500" : "bg-brand-primary")}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-3 text-xs">
+          <span className="text-zinc-400">{Math.round(progress)}% complete</span>
+          {isEditingTarget ? (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={targetInput}
+                onChange={(e) => setTargetInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveTarget()}
+                className="w-20 bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none"
+              />
+              <button onClick={saveTarget} className="text-brand-primary font-medium hover:underline">Save</button>
+            </div>
+          ) : (
+            <button
+              onClick={() => { setTargetInput(String(targetHours)); setIsEditingTarget(true); }}
+              className="text-zinc-500 hover:text-zinc-300"
+            >
+              Change target
+            </button>
+          )}
+        </div>
+      </Card>
+
+      {sortedWeeks.length > 0 ? sortedWeeks.map(week => {
+        const weekLogs = weeks[week];
+        const weekHours = weekLogs.reduce((sum, log) => sum + (log.hours || 0), 0);
+        return (
+          <Card key={week} title={`Week of ${format(parseISO(week), 'MMM d, yyyy')}`} subtitle={`${weekHours.toFixed(1)} hours · ${weekLogs.length} entries`}>
+            <div className="divide-y divide-zinc-800/50">
+              {weekLogs.map(log => (
+                <div key={log.id} className="flex items-start gap-4 py-3 group">
+                  <div className="w-14 shrink-0 text-center">
+                    <p className="text-[10px] text-zinc-500 uppercase tracking-wider font-bold">{format(parseISO(log.date), 'EEE')}</p>
+                    <p className="text-lg font-bold font-display">{format(parseISO(log.date), 'd')}</p>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold">{log.title}</p>
+                    {log.description && <p className="text-xs text-zinc-500 whitespace-pre-line">{log.description}</p>}
+                  </div>
+                  <span className="text-xs px-2 py-1 rounded-lg bg-brand-primary/10 text-brand-primary font-bold tabular-nums">{log.hours}h</span>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={() => onEditLog(log)} className="p-1.5 text-zinc-500 hover:text-zinc-200" title="Edit entry">
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => onDeleteLog(log.id)} className="p-1.5 text-zinc-500 hover:text-rose-500" title="Delete entry">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        );
+      }) : (
+        <div className="py-12 text-center text-zinc-500 border border-dashed border-zinc-800 rounded-2xl">
+          <Briefcase size={48} className="mx-auto mb-4 opacity-20" />
+          <p>No internship hours logged yet.</p>
+          <button onClick={onAddLog} className="mt-4 text-brand-primary font-medium hover:underline">Log your first day</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InternshipModal({ isOpen, log, onClose, onSave }: { isOpen: boolean, log: InternshipLog | null, onClose: () => void, onSave: (log: Omit<InternshipLog, 'id'>) => void }) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [hours, setHours] = useState('8');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(log?.title || '');
+    setDescription(log?.description || '');
+    setDate(log?.date || new Date().toISOString().split('T')[0]);
+    setHours(log ? String(log.hours) : '8');
+  }, [isOpen, log]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ title, description, date, hours: Number(hours) });
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl"
+          >
+            <h2 className="text-2xl font-bold font-display mb-6">{log ? 'Edit Log Entry' : 'Log Internship Hours'}</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Title</label>
+                <input
+                  required
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g. Built data ingestion pipeline"
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Description</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What did you work on?"
+                  rows={3}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Date</label>
+                  <div className="relative">
+                    <input
+                      required
+                      type="date"
+                      value={date}
+                      onChange={(e) => setDate(e.target.value)}
+                      className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all appearance-none"
+                    />
+                    <Calendar className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" size={18} />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Hours</label>
+                  <input
+                    required
+                    type="number"
+                    min={0}
+                    max={24}
+                    step={0.5}
+                    value={hours}
+                    onChange={(e) => setHours(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20"
+                >
+                  {log ? 'Save Changes' : 'Add Entry'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function ProjectBoard({
+  projects,
+  setProjects,
+  onAddProject,
+  onEditProject
+}: {
+  projects: Project[],
+  setProjects: React.Dispatch<React.SetStateAction<Project[]>>,
+  onAddProject: () => void,
+  onEditProject: (project: Project) => void
+}) {
+  const [showArchived, setShowArchived] = useState(false);
+  const [milestoneDrafts, setMilestoneDrafts] = useState<Record<number, { title: string, due_date: string }>>({});
+
+  const statusStyles: Record<Project['status'], string> = {
+    'active': "bg-brand-primary/10 text-brand-primary",
+    'on-hold': "bg-amber-500/10 text-amber-500",
+    'completed': "bg-emerald-500/10 text-emerald-500",
+    'archived': "bg-zinc-800 text-zinc-500",
+  };
+
+  const refreshProjects = async () => {
+    const data = await fetchJson<Project[]>('/api/projects');
+    if (data) setProjects(data);
+  };
+
+  const updateProject = async (id: number, changes: Partial<Project>) => {
+    try {
+      await fetch(`/api/projects/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      setProjects(projects.map(p => p.id === id ? { ...p, ...changes } : p));
+    } catch (error) {
+      console.error("Update project error:", error);
+    }
+  };
+
+  const deleteProject = async (id: number) => {
+    if (!confirm("Delete this project and all of its milestones?")) return;
+    try {
+      await fetch(`/api/projects/${id}`, { method: 'DELETE' });
+      setProjects(projects.filter(p => p.id !== id));
+    } catch (error) {
+      console.error("Delete project error:", error);
+    }
+  };
+
+  const addMilestone = async (projectId: number) => {
+    const draft = milestoneDrafts[projectId];
+    if (!draft?.title.trim()) return;
+    try {
+      await fetch(`/api/projects/${projectId}/milestones`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      setMilestoneDrafts(prev => ({ ...prev, [projectId]: { title: '', due_date: '' } }));
+      await refreshProjects();
+    } catch (error) {
+      console.error("Add milestone error:", error);
+    }
+  };
+
+  const toggleMilestone = async (milestone: Milestone) => {
+    try {
+      await fetch(`/api/projects/${milestone.project_id}/milestones/${milestone.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ completed: !milestone.completed })
+      });
+      await refreshProjects();
+    } catch (error) {
+      console.error("Toggle milestone error:", error);
+    }
+  };
+
+  const deleteMilestone = async (milestone: Milestone) => {
+    try {
+      await fetch(`/api/projects/${milestone.project_id}/milestones/${milestone.id}`, { method: 'DELETE' });
+      await refreshProjects();
+    } catch (error) {
+      console.error("Delete milestone error:", error);
+    }
+  };
+
+  const visibleProjects = projects.filter(p => showArchived || p.status !== 'archived');
+  const archivedCount = projects.filter(p => p.status === 'archived').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold font-display">Project Board</h1>
+          <p className="text-zinc-500 text-sm">Track course and side projects alongside your milestones.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="px-3 py-2 text-zinc-400 hover:text-zinc-100 rounded-xl text-sm font-medium flex items-center gap-2"
+            >
+              <Archive size={16} />
+              <span>{showArchived ? 'Hide' : 'Show'} archived ({archivedCount})</span>
+            </button>
+          )}
+          <button 
+            onClick={onAddProject}
+            className="px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors flex items-center gap-2"
+          >
+            <Plus size={16} />
+            <span>New Project</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {visibleProjects.length > 0 ? visibleProjects.map(project => {
+          const upcoming = project.milestones.filter(m => !m.completed);
+          const done = project.milestones.filter(m => m.completed);
+          const draft = milestoneDrafts[project.id] || { title: '', due_date: '' };
+          return (
+            <Card key={project.id} className={cn("group", project.status === 'archived' && "opacity-60")}>
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="text-lg font-bold truncate">{project.name}</h3>
+                    <span className={cn("text-[10px] px-2 py-0.5 rounded font-bold uppercase tracking-wider", statusStyles[project.status])}>
+                      {project.status}
+                    </span>
+                  </div>
+                  <p className="text-xs text-zinc-500">{project.description || 'No description'}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <select
+                    value={project.status}
+                    onChange={(e) => updateProject(project.id, { status: e.target.value as Project['status'] })}
+                    className="bg-zinc-900 border border-zinc-800 rounded px-2 py-1 text-xs focus:outline-none"
+                  >
+                    <option value="active">Active</option>
+                    <option value="on-hold">On Hold</option>
+                    <option value="completed">Completed</option>
+                    <option value="archived">Archived</option>
+                  </select>
+                  <button onClick={() => onEditProject(project)} className="p-1.5 text-zinc-500 hover:text-zinc-200" title="Edit project">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => deleteProject(project.id)} className="p-1.5 text-zinc-500 hover:text-rose-500" title="Delete project">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-zinc-400">Progress</span>
+                  <span className="flex items-center gap-3">
+                    {!!project.tracked_minutes && (
+                      <span className="flex items-center gap-1 text-zinc-500 tabular-nums" title="Focus time tracked">
+                        <Timer size={12} />
+                        {formatTracked(project.tracked_minutes)}
+                      </span>
+                    )}
+                    <span className="font-bold tabular-nums">{project.progress}%</span>
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={5}
+                  value={project.progress}
+                  onChange={(e) => setProjects(projects.map(p => p.id === project.id ? { ...p, progress: Number(e.target.value) } : p))}
+                  onPointerUp={(e) => updateProject(project.id, { progress: Number((e.target as HTMLInputElement).value) })}
+                  onKeyUp={(e) => updateProject(project.id, { progress: Number((e.target as HTMLInputElement).value) })}
+                  className="w-full accent-brand-primary"
+                />
+              </div>
+
+              <div className="mt-4 pt-4 border-t border-zinc-800/50 space-y-2">
+                <p className="text-xs text-zinc-500 uppercase tracking-wider font-bold">
+                  Milestones · {done.length}/{project.milestones.length}
+                </p>
+                {upcoming.map(milestone => {
+                  const overdue = milestone.due_date && isBefore(parseISO(milestone.due_date), startOfToday());
+                  return (
+                    <div key={milestone.id} className="flex items-center gap-3 text-sm">
+                      <input type="checkbox" checked={false} onChange={() => toggleMilestone(milestone)} className="accent-brand-primary" />
+                      <span className="flex-1 truncate">{milestone.title}</span>
+                      {milestone.due_date && (
+                        <span className={cn("flex items-center gap-1 text-[10px] font-medium", overdue ? "text-rose-500" : "text-zinc-500")}>
+                          <Flag size={10} />
+                          {format(parseISO(milestone.due_date), 'MMM d')}
+                        </span>
+                      )}
+                      <button onClick={() => deleteMilestone(milestone)} className="text-zinc-600 hover:text-rose-500" title="Delete milestone">
+                        <Trash2 size={12} />
+                      </button>
+                    </div>
+                  );
+                })}
+                {done.map(milestone => (
+                  <div key={milestone.id} className="flex items-center gap-3 text-sm text-zinc-500">
+                    <input type="checkbox" checked onChange={() => toggleMilestone(milestone)} className="accent-brand-primary" />
+                    <span className="flex-1 truncate line-through">{milestone.title}</span>
+                    <button onClick={() => deleteMilestone(milestone)} className="text-zinc-600 hover:text-rose-500" title="Delete milestone">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+                <form
+                  onSubmit={(e) => { e.preventDefault(); addMilestone(project.id); }}
+                  className="flex items-center gap-2 pt-2"
+                >
+                  <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => setMilestoneDrafts(prev => ({ ...prev, [project.id]: { ...draft, title: e.target.value } }))}
+                    placeholder="Add a milestone..."
+                    className="flex-1 bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-1.5 text-xs focus:outline-none focus:ring-2 focus:ring-brand-primary/20"
+                  />
+                  <input
+                    type="date"
+                    value={draft.due_date}
+                    onChange={(e) => setMilestoneDrafts(prev => ({ ...prev, [project.id]: { ...draft, due_date: e.target.value } }))}
+                    className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs focus:outline-none"
+                  />
+                  <button type="submit" className="p-1.5 text-zinc-400 hover:text-brand-primary" title="Add milestone">
+                    <Plus size={16} />
+                  </button>
+                </form>
+              </div>
+            </Card>
+          );
+        }) : (
+          <div className="col-span-full py-12 text-center text-zinc-500 border border-dashed border-zinc-800 rounded-2xl">
+            <FolderKanban size={48} className="mx-auto mb-4 opacity-20" />
+            <p>No projects yet.</p>
+            <button onClick={onAddProject} className="mt-4 text-brand-primary font-medium hover:underline">Start your first project</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ProjectModal({ isOpen, project, onClose, onSave }: { isOpen: boolean, project: Project | null, onClose: () => void, onSave: (project: Omit<Project, 'id' | 'milestones'>) => void }) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [status, setStatus] = useState<Project['status']>('active');
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(project?.name || '');
+    setDescription(project?.description || '');
+    setStatus(project?.status || 'active');
+    setProgress(project?.progress || 0);
+  }, [isOpen, project]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ name, description, status, progress });
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl"
+          >
+            <h2 className="text-2xl font-bold font-display mb-6">{project ? 'Edit Project' : 'Create New Project'}</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Project Name</label>
+                <input
+                  required
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Sentiment Analysis Mini Project"
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Description</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder="What is this project about?"
+                  rows={3}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all resize-none"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Status</label>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as Project['status'])}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  >
+                    <option value="active">Active</option>
+                    <option value="on-hold">On Hold</option>
+                    <option value="completed">Completed</option>
+                    <option value="archived">Archived</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Progress (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={progress}
+                    onChange={(e) => setProgress(Number(e.target.value))}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20"
+                >
+                  {project ? 'Save Changes' : 'Create Project'}
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function Analytics() {
+  const [range, setRange] = useState<7 | 30 | 120 | 'custom'>(30);
+  const [from, setFrom] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [granularity, setGranularity] = useState<AnalyticsData['granularity']>('day');
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectRange = (days: 7 | 30 | 120) => {
+    setRange(days);
+    setFrom(format(subDays(new Date(), days - 1), 'yyyy-MM-dd'));
+    setTo(format(new Date(), 'yyyy-MM-dd'));
+    setGranularity(days === 120 ? 'week' : 'day');
+  };
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        const params = new URLSearchParams({ from, to, granularity });
+        const res = await fetch(`/api/analytics?${params}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error);
+        setData(json);
+        setError(null);
+      } catch (err: any) {
+        console.error("Analytics error:", err);
+        setError(err.message || "Failed to load analytics");
+      }
+    };
+    fetchAnalytics();
+  }, [from, to, granularity]);
+
+  const formatBucket = (bucket: string) => {
+    const date = parseISO(bucket);
+    if (granularity === 'month') return format(date, 'MMM yyyy');
+    return format(date, 'MMM d');
+  };
+
+  const chartData = (data?.series || []).map(b => ({
+    ...b,
+    name: formatBucket(b.bucket),
+    focusHours: Math.round((b.focusMinutes / 60) * 10) / 10,
+  }));
+
+  const tooltipProps = {
+    contentStyle: { backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '12px' },
+    itemStyle: { color: '#f4f4f5' },
+  };
+
+  const statusColors: Record<string, string> = { 'todo': '#71717a', 'in-progress': '#6366f1', 'done': '#10b981' };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold font-display">Analytics</h1>
+          <p className="text-zinc-500 text-sm">Trends across focus, tasks, attendance and internship hours.</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2 bg-zinc-900/50 p-1 rounded-xl border border-zinc-800">
+            {([7, 30, 120] as const).map(days => (
+              <button
+                key={days}
+                onClick={() => selectRange(days)}
+                className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", range === days ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
+              >
+                {days === 120 ? 'Semester' : `${days} days`}
+              </button>
+            ))}
+            <button
+              onClick={() => setRange('custom')}
+              className={cn("px-3 py-1.5 rounded-lg text-xs font-medium transition-all", range === 'custom' ? "bg-zinc-800 text-white shadow-sm" : "text-zinc-500 hover:text-zinc-300")}
+            >
+              Custom
+            </button>
+          </div>
+          {range === 'custom' && (
+            <>
+              <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs focus:outline-none" />
+              <span className="text-zinc-500 text-xs">to</span>
+              <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs focus:outline-none" />
+            </>
+          )}
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as AnalyticsData['granularity'])}
+            className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs focus:outline-none"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly</option>
+            <option value="month">Monthly</option>
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-rose-500/10 text-rose-500 text-sm">
+          <AlertCircle size={16} />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard label="Focus Hours" value={((data?.totals.focusMinutes || 0) / 60).toFixed(1)} icon={Timer} color="bg-indigo-500/10 text-indigo-500" />
+        <StatCard label="Tasks Completed" value={data?.totals.tasksCompleted || 0} icon={Award} color="bg-emerald-500/10 text-emerald-500" />
+        <StatCard label="Attendance" value={data?.totals.attendanceRate == null ? '—' : `${data.totals.attendanceRate}%`} icon={BookOpen} color="bg-amber-500/10 text-amber-500" />
+        <StatCard label="Internship Hours" value={(data?.totals.internshipHours || 0).toFixed(1)} icon={Briefcase} color="bg-blue-500/10 text-blue-500" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card title="Focus Time" subtitle="Hours of focused work">
+          <div className="h-[260px] w-full mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip {...tooltipProps} />
+                <Bar dataKey="focusHours" name="Focus hours" fill="#6366f1" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card title="Tasks Completed" subtitle="Tasks moved to done">
+          <div className="h-[260px] w-full mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} allowDecimals={false} />
+                <Tooltip {...tooltipProps} />
+                <Line type="monotone" dataKey="tasksCompleted" name="Tasks completed" stroke="#10b981" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card title="Attendance Rate" subtitle="Present out of marked lectures">
+          <div className="h-[260px] w-full mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} domain={[0, 100]} unit="%" />
+                <Tooltip {...tooltipProps} />
+                <Line type="monotone" dataKey="attendanceRate" name="Attendance" stroke="#f59e0b" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+
+        <Card title="Internship Hours" subtitle="Hours logged per period">
+          <div className="h-[260px] w-full mt-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={chartData}>
+                <defs>
+                  <linearGradient id="colorInternship" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" vertical={false} />
+                <XAxis dataKey="name" stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <YAxis stroke="#71717a" fontSize={12} tickLine={false} axisLine={false} />
+                <Tooltip {...tooltipProps} />
+                <Area type="monotone" dataKey="internshipHours" name="Internship hours" stroke="#3b82f6" fillOpacity={1} fill="url(#colorInternship)" strokeWidth={2} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </Card>
+      </div>
+
+      <Card title="Time by Project" subtitle="Focus time in this period, by what it was spent on">
+        <div className="space-y-3 mt-2">
+          {(data?.focusByProject || []).map(row => {
+            const total = data!.totals.focusMinutes || 1;
+            return (
+              <div key={row.project_id ?? 'none'}>
+                <div className="flex items-center justify-between text-xs mb-1">
+                  <span className={row.project_id ? "text-zinc-300" : "text-zinc-500"}>{row.name || 'No project'}</span>
+                  <span className="text-zinc-400 tabular-nums">{formatTracked(row.minutes)} · {Math.round((row.minutes / total) * 100)}%</span>
+                </div>
+                <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className={cn("h-full rounded-full", row.project_id ? "bg-brand-primary" : "bg-zinc-600")}
+                    style={{ width: `${(row.minutes / total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          {!data?.focusByProject.length && <p className="text-sm text-zinc-500 text-center py-6">No focus time in this period.</p>}
+        </div>
+      </Card>
+
+      <Card title="Task Status" subtitle="All tasks by current status">
+        <div className="h-[220px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <PieChart>
+              <Pie data={data?.taskStats || []} dataKey="count" nameKey="status" innerRadius={50} outerRadius={80} paddingAngle={4}>
+                {(data?.taskStats || []).map(stat => (
+                  <Cell key={stat.status} fill={statusColors[stat.status] || '#a1a1aa'} stroke="none" />
+                ))}
+              </Pie>
+              <Tooltip {...tooltipProps} />
+              <Legend />
+            </PieChart>
+          </ResponsiveContainer>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+function LectureModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () => void, onAdd: (lecture: any) => void }) {
+  const [subject, setSubject] = useState('');
+  const [topic, setTopic] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd({ subject, topic, date, start_time: startTime || null, end_time: endTime || null });
+    setSubject('');
+    setTopic('');
+    setDate(new Date().toISOString().split('T')[0]);
+    setStartTime('');
+    setEndTime('');
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl"
+          >
+            <h2 className="text-2xl font-bold font-display mb-6">Add New Lecture</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Subject</label>
+                <input
+                  required
+                  type="text"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="e.g. Machine Learning"
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Topic</label>
+                <input
+                  type="text"
+                  value={topic}
+                  onChange={(e) => setTopic(e.target.value)}
+                  placeholder="What's being covered?"
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Date</label>
+                <div className="relative">
+                  <input
+                    type="date"
+                    value={date}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all appearance-none"
+                  />
+                  <Calendar className="absolute right-4 top-1/2 -translate-y-1/2 text-zinc-500 pointer-events-none" size={18} />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Starts</label>
+                  <input
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Ends</label>
+                  <input
+                    type="time"
+                    value={endTime}
+                    onChange={(e) => setEndTime(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
               </div>
               <div className="flex gap-3 pt-4">
                 <button
@@ -824,66 +4258,177 @@ function LectureModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: ()
   );
 }
 
-function FocusMode({ onSessionComplete }: { onSessionComplete: (duration: number, type: string) => void }) {
-  const [timeLeft, setTimeLeft] = useState(25 * 60);
-  const [isActive, setIsActive] = useState(false);
-  const [sessionType, setSessionType] = useState<'work' | 'break'>('work');
+// Created on the first start so the browser treats it as user-initiated audio
+let chimeContext: AudioContext | null = null;
+
+const prepareChime = () => {
+  try {
+    chimeContext ||= new AudioContext();
+    chimeContext.resume();
+  } catch {
+    chimeContext = null;
+  }
+};
+
+// Two short rising tones, generated rather than loaded from a file
+const playChime = () => {
+  if (!chimeContext) return;
+  const start = chimeContext.currentTime;
+  [660, 880].forEach((frequency, index) => {
+    const oscillator = chimeContext!.createOscillator();
+    const gain = chimeContext!.createGain();
+    const at = start + index * 0.25;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, at);
+    gain.gain.exponentialRampToValueAtTime(0.001, at + 0.4);
+    oscillator.connect(gain).connect(chimeContext!.destination);
+    oscillator.start(at);
+    oscillator.stop(at + 0.4);
+  });
+};
 
+function FocusMode({
+  timer,
+  tasks,
+  projects,
+  onTimeLogged,
+  settings,
+  onUpdateSettings,
+  planBlocks,
+  onAction,
+  onChange
+}: {
+  timer: FocusTimer | null,
+  tasks: Task[],
+  projects: Project[],
+  onTimeLogged: () => void,
+  settings: Record<string, string>,
+  onUpdateSettings: (changes: Record<string, string>) => void,
+  planBlocks: PlanBlock[],
+  onAction: (action: FocusAction, body?: Record<string, unknown>) => void,
+  onChange: (changes: Record<string, unknown>) => void
+}) {
+  const config = pomodoroConfig(settings);
+  const [isTimeEntryOpen, setIsTimeEntryOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [soundOn, setSoundOn] = useState(() => localStorage.getItem('focusSound') !== 'off');
+  const [isConfigOpen, setIsConfigOpen] = useState(false);
+  const [draftConfig, setDraftConfig] = useState<PomodoroConfig>(config);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const nextBlock = nextPlanBlock(planBlocks, new Date(now));
+
+  const phase = timer?.phase ?? 'work';
+  const active = timer?.started_at != null;
+  const running = active && timer.paused_at === null;
+  const activeBlock = planBlocks.find(block => block.id === timer?.plan_block_id) ?? null;
+  // Until a session starts, the timer shows the configured length of the phase
+  const duration = active ? timer.duration_ms : phaseMinutes(config, phase) * 60 * 1000;
+  const elapsed = active ? sessionElapsedMs(timer, now + timer.offset) : 0;
+
+  // The display is recomputed from the clock, so a late or skipped tick never loses time
   useEffect(() => {
-    let interval: any = null;
-    if (isActive && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft(timeLeft - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      setIsActive(false);
+    setNow(Date.now());
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    const catchUp = () => setNow(Date.now());
+    document.addEventListener('visibilitychange', catchUp);
+    return () => {
       clearInterval(interval);
-      onSessionComplete(sessionType === 'work' ? 25 : 5, sessionType);
-      
-      // Auto switch or alert
-      if (sessionType === 'work') {
-        alert("Session complete! Take a break.");
-        setSessionType('break');
-        setTimeLeft(5 * 60);
-      } else {
-        alert("Break over! Time to focus.");
-        setSessionType('work');
-        setTimeLeft(25 * 60);
-      }
-    }
-    return () => clearInterval(interval);
-  }, [isActive, timeLeft, sessionType, onSessionComplete]);
+      document.removeEventListener('visibilitychange', catchUp);
+    };
+  }, [running, timer?.started_at, timer?.paused_ms]);
+
+  const toggleTimer = () => onAction(!active ? 'start' : running ? 'pause' : 'resume');
+
+  const toggleSound = () => {
+    localStorage.setItem('focusSound', soundOn ? 'off' : 'on');
+    setSoundOn(!soundOn);
+  };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const handleSaveConfig = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validatePomodoroConfig(draftConfig);
+    setConfigError(error);
+    if (error) return;
+    onUpdateSettings(Object.fromEntries(
+      (Object.keys(POMODORO_SETTINGS) as (keyof PomodoroConfig)[]).map(key => [POMODORO_SETTINGS[key], String(draftConfig[key])])
+    ));
+    setIsConfigOpen(false);
   };
 
-  const totalTime = sessionType === 'work' ? 25 * 60 : 5 * 60;
-  const progress = ((totalTime - timeLeft) / totalTime) * 100;
+  const progress = (elapsed / duration) * 100;
+  const cyclePosition = (timer?.completed_work ?? 0) % config.longBreakEvery;
 
   return (
-    <div className="flex flex-col items-center justify-center h-[70vh] space-y-12">
+    <div className="flex flex-col items-center justify-center min-h-[70vh] space-y-10 relative">
       <div className="text-center">
         <h1 className="text-4xl font-bold font-display tracking-tight mb-2">Focus Mode</h1>
         <p className="text-zinc-500">Distraction-free environment for deep work.</p>
-        <div className="flex items-center justify-center gap-4 mt-6">
-          <button 
-            onClick={() => { setSessionType('work'); setTimeLeft(25 * 60); setIsActive(false); }}
-            className={cn("px-4 py-2 rounded-xl text-sm font-medium transition-all", sessionType === 'work' ? "bg-brand-primary text-white" : "bg-zinc-800 text-zinc-400")}
+        <div className="flex items-center justify-center gap-3 mt-6">
+          {(['work', 'short_break', 'long_break'] as PomodoroPhase[]).map(option => (
+            <button
+              key={option}
+              onClick={() => onChange({ phase: option })}
+              disabled={active && phase !== option}
+              title={active && phase !== option ? "Stop the current session to switch" : undefined}
+              className={cn(
+                "px-4 py-2 rounded-xl text-sm font-medium transition-all disabled:opacity-40",
+                phase === option ? (option === 'work' ? "bg-brand-primary text-white" : "bg-emerald-500 text-white") : "bg-zinc-800 text-zinc-400"
+              )}
+            >
+              {PHASE_LABELS[option]}
+            </button>
+          ))}
+          <button
+            onClick={() => { setDraftConfig(config); setConfigError(null); setIsConfigOpen(!isConfigOpen); }}
+            className={cn("p-2 rounded-xl transition-colors", isConfigOpen ? "bg-zinc-700 text-zinc-100" : "bg-zinc-800 text-zinc-400 hover:text-zinc-200")}
+            title="Timer settings"
           >
-            Work Session
+            <SlidersHorizontal size={18} />
           </button>
-          <button 
-            onClick={() => { setSessionType('break'); setTimeLeft(5 * 60); setIsActive(false); }}
-            className={cn("px-4 py-2 rounded-xl text-sm font-medium transition-all", sessionType === 'break' ? "bg-emerald-500 text-white" : "bg-zinc-800 text-zinc-400")}
+          <button
+            onClick={toggleSound}
+            className="p-2 rounded-xl bg-zinc-800 text-zinc-400 hover:text-zinc-200 transition-colors"
+            title={soundOn ? "Mute sounds" : "Play sounds"}
           >
-            Short Break
+            {soundOn ? <Volume2 size={18} /> : <VolumeX size={18} />}
           </button>
         </div>
       </div>
 
+      {isConfigOpen && (
+        <form onSubmit={handleSaveConfig} className="glass-card rounded-2xl p-5 w-full max-w-xl">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ['work', 'Work (min)'],
+              ['shortBreak', 'Short break'],
+              ['longBreak', 'Long break'],
+              ['longBreakEvery', 'Long every']
+            ] as [keyof PomodoroConfig, string][]).map(([key, label]) => (
+              <div key={key}>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">{label}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draftConfig[key]}
+                  onChange={(e) => setDraftConfig({ ...draftConfig, [key]: Number(e.target.value) })}
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+            ))}
+          </div>
+          {configError && <p className="mt-3 text-sm text-rose-400">{configError}</p>}
+          <div className="flex justify-end gap-3 mt-4">
+            <button type="button" onClick={() => setIsConfigOpen(false)} className="px-4 py-2 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors">
+              Cancel
+            </button>
+            <button type="submit" className="px-4 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors">
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
       <div className="relative w-80 h-80 flex items-center justify-center">
         <svg className="w-full h-full -rotate-90">
           <circle
@@ -904,57 +4449,241 @@ function FocusMode({ onSessionComplete }: { onSessionComplete: (duration: number
             strokeWidth="8"
             strokeDasharray={880}
             animate={{ strokeDashoffset: 880 - (880 * progress) / 100 }}
-            className={sessionType === 'work' ? "text-brand-primary" : "text-emerald-500"}
+            className={phase === 'work' ? "text-brand-primary" : "text-emerald-500"}
           />
         </svg>
         <div className="absolute inset-0 flex flex-col items-center justify-center">
-          <span className="text-6xl font-bold font-display tabular-nums">{formatTime(timeLeft)}</span>
+          <span className="text-6xl font-bold font-display tabular-nums">{formatCountdown(duration - elapsed)}</span>
           <span className="text-sm text-zinc-500 uppercase tracking-widest mt-2">
-            {sessionType === 'work' ? 'Focusing' : 'Resting'}
+            {active && !running ? 'Paused' : phase === 'work' ? 'Focusing' : 'Resting'}
           </span>
+          {activeBlock && <span className="text-xs text-zinc-400 mt-2 max-w-[14rem] truncate">{activeBlock.title}</span>}
+          <div className="flex gap-1.5 mt-4" title={`Long break after every ${config.longBreakEvery} work sessions`}>
+            {Array.from({ length: config.longBreakEvery }, (_, index) => (
+              <span key={index} className={cn("w-2 h-2 rounded-full", index < cyclePosition ? "bg-brand-primary" : "bg-zinc-700")} />
+            ))}
+          </div>
         </div>
       </div>
 
       <div className="flex items-center gap-6">
         <button 
-          onClick={() => setIsActive(!isActive)}
+          onClick={() => onAction('stop', { discard: true })}
+          disabled={!active}
+          className="w-12 h-12 rounded-full bg-zinc-800 text-zinc-400 flex items-center justify-center hover:bg-zinc-700 transition-colors disabled:opacity-40"
+          title="Reset"
+        >
+          <Plus size={24} className="rotate-45" />
+        </button>
+        <button 
+          onClick={toggleTimer}
           className={cn(
             "w-16 h-16 rounded-full flex items-center justify-center transition-all shadow-lg",
-            isActive ? "bg-rose-500 text-white hover:bg-rose-600" : "bg-brand-primary text-white hover:bg-brand-primary/90"
+            running ? "bg-rose-500 text-white hover:bg-rose-600" : "bg-brand-primary text-white hover:bg-brand-primary/90"
           )}
         >
-          {isActive ? <Timer size={32} /> : <Timer size={32} />}
+          {running ? <Pause size={28} /> : <Play size={28} />}
         </button>
         <button 
-          onClick={() => { setTimeLeft(sessionType === 'work' ? 25 * 60 : 5 * 60); setIsActive(false); }}
-          className="w-12 h-12 rounded-full bg-zinc-800 text-zinc-400 flex items-center justify-center hover:bg-zinc-700 transition-colors"
+          onClick={() => onAction('stop')}
+          disabled={!active}
+          className="w-12 h-12 rounded-full bg-zinc-800 text-zinc-400 flex items-center justify-center hover:bg-zinc-700 transition-colors disabled:opacity-40"
+          title="Finish now"
         >
-          <Plus size={24} className="rotate-45" />
+          <SkipForward size={20} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Working on</span>
+        <FocusLinkSelect
+          tasks={tasks}
+          projects={projects}
+          value={focusTimerLink(timer)}
+          onChange={(link) => onChange({ task_id: null, project_id: null, ...focusLinkFields(link) })}
+          className="max-w-xs"
+        />
+        <button onClick={() => setIsTimeEntryOpen(true)} className="text-xs text-zinc-400 hover:text-zinc-200 underline underline-offset-2">
+          Log time manually
         </button>
       </div>
+
+      {nextBlock && !active && (
+        <div className="flex items-center gap-4 px-4 py-3 rounded-xl bg-zinc-900/50 border border-zinc-800">
+          <div className="text-left">
+            <p className="text-[10px] font-bold text-zinc-500 uppercase tracking-wider">Next planned block</p>
+            <p className="text-sm text-zinc-200">
+              {nextBlock.title} <span className="text-zinc-500 tabular-nums">· {nextBlock.start_time}–{nextBlock.end_time}</span>
+            </p>
+          </div>
+          <button
+            onClick={() => onAction('start', { plan_block_id: nextBlock.id })}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors"
+          >
+            <Play size={14} />
+            <span>Start block</span>
+          </button>
+        </div>
+      )}
+
+      <TimeEntryModal
+        isOpen={isTimeEntryOpen}
+        tasks={tasks}
+        projects={projects}
+        onClose={() => setIsTimeEntryOpen(false)}
+        onLogged={() => { setIsTimeEntryOpen(false); onTimeLogged(); }}
+      />
     </div>
   );
 }
 
-function TaskModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () => void, onAdd: (task: Omit<Task, 'id'>) => void }) {
+function TimeEntryModal({
+  isOpen,
+  tasks,
+  projects,
+  onClose,
+  onLogged
+}: {
+  isOpen: boolean,
+  tasks: Task[],
+  projects: Project[],
+  onClose: () => void,
+  onLogged: () => void
+}) {
+  const [minutes, setMinutes] = useState(30);
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [link, setLink] = useState<FocusLink>('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const res = await fetch('/api/focus/manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ duration: minutes, date, note, ...focusLinkFields(link) })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+      setError(null);
+      setNote('');
+      onLogged();
+    } catch (err: any) {
+      setError(err.message || 'Failed to log time');
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="relative w-full max-w-lg glass-card rounded-2xl p-8 shadow-2xl"
+          >
+            <h2 className="text-2xl font-bold font-display mb-6">Log Focus Time</h2>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Minutes</label>
+                  <input
+                    required
+                    type="number"
+                    min={1}
+                    value={minutes}
+                    onChange={(e) => setMinutes(Number(e.target.value))}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Date</label>
+                  <input
+                    required
+                    type="date"
+                    value={date}
+                    max={format(new Date(), 'yyyy-MM-dd')}
+                    onChange={(e) => setDate(e.target.value)}
+                    className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Spent on</label>
+                <FocusLinkSelect tasks={tasks} projects={projects} value={link} onChange={setLink} className="w-full px-4 py-3" />
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Note</label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What did you work on?"
+                  className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+                />
+              </div>
+              {error && <p className="text-sm text-rose-400">{error}</p>}
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-3 rounded-xl bg-brand-primary text-white text-sm font-medium hover:bg-brand-primary/90 transition-colors shadow-lg shadow-brand-primary/20"
+                >
+                  Log Time
+                </button>
+              </div>
+            </form>
+          </motion.div>
+        </div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+function TaskModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () => void, onAdd: (task: Omit<Task, 'id'>) => Promise<string | null> }) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<Task['priority']>('medium');
   const [dueDate, setDueDate] = useState('');
+  const [recurrence, setRecurrence] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    onAdd({
+    const failure = await onAdd({
       title,
       description,
       priority,
       status: 'todo',
-      due_date: dueDate
+      due_date: dueDate,
+      recurrence
     });
+    setError(failure);
+    if (failure) return;
     setTitle('');
     setDescription('');
     setPriority('medium');
     setDueDate('');
+    setRecurrence(null);
   };
 
   return (
@@ -965,7 +4694,7 @@ function TaskModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () =>
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            onClick={onClose}
+            onClick={handleClose}
             className="absolute inset-0 bg-black/60 backdrop-blur-sm"
           />
           <motion.div
@@ -1023,10 +4752,12 @@ function TaskModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () =>
                   </div>
                 </div>
               </div>
+              <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+              {error && <p className="text-sm text-rose-400">{error}</p>}
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
-                  onClick={onClose}
+                  onClick={handleClose}
                   className="flex-1 px-4 py-3 rounded-xl border border-zinc-800 text-sm font-medium hover:bg-zinc-800 transition-colors"
                 >
                   Cancel
@@ -1046,90 +4777,539 @@ function TaskModal({ isOpen, onClose, onAdd }: { isOpen: boolean, onClose: () =>
   );
 }
 
-function AIAssistant() {
-  const [messages, setMessages] = useState<{ role: 'user' | 'ai', text: string }[]>([
-    { role: 'ai', text: "Hello Darshan! I'm your Productivity OS Assistant. How can I help you optimize your schedule today?" }
-  ]);
+const SharedContext = ({ shared }: { shared: AssistantShared }) => {
+  const items = [
+    shared.tasks.included < shared.tasks.total
+      ? `${shared.tasks.included} of ${shared.tasks.total} open tasks`
+      : `${shared.tasks.total} open task${shared.tasks.total === 1 ? '' : 's'}`,
+    `${shared.lectures} lecture${shared.lectures === 1 ? '' : 's'} this week`,
+    `attendance for ${shared.attendanceSubjects} subject${shared.attendanceSubjects === 1 ? '' : 's'}`,
+    `${shared.focusMinutes} focus min (7 days)`,
+    `${shared.projects.included} active project${shared.projects.included === 1 ? '' : 's'}`,
+  ];
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[10px] text-zinc-500">
+      <Database size={12} />
+      <span>Shared:</span>
+      {items.map(item => (
+        <span key={item} className="px-1.5 py-0.5 rounded bg-zinc-800/60 border border-zinc-800">{item}</span>
+      ))}
+    </div>
+  );
+};
+
+const ACTION_STYLES: Record<AssistantAction['status'], string> = {
+  done: 'text-emerald-500',
+  failed: 'text-rose-500',
+  pending: 'text-amber-500',
+  cancelled: 'text-zinc-500 line-through',
+};
+
+const AssistantActions = ({
+  actions,
+  onResolve
+}: {
+  actions: AssistantAction[],
+  onResolve: (action: AssistantAction, decision: 'confirm' | 'cancel') => void
+}) => (
+  <div className="mt-2 space-y-1.5">
+    {actions.map((action, idx) => (
+      <div key={action.id ?? `${action.tool}-${idx}`} className="flex items-center gap-2 text-xs bg-zinc-900/60 border border-zinc-800 rounded-xl px-3 py-2">
+        {action.status === 'done' && <CheckCheck size={14} className="text-emerald-500 shrink-0" />}
+        {action.status === 'failed' && <X size={14} className="text-rose-500 shrink-0" />}
+        {action.status === 'pending' && <AlertCircle size={14} className="text-amber-500 shrink-0" />}
+        {action.status === 'cancelled' && <X size={14} className="text-zinc-500 shrink-0" />}
+        <span className={cn("flex-1", ACTION_STYLES[action.status])}>
+          {action.summary}
+          {action.error && <span className="text-zinc-500"> — {action.error}</span>}
+        </span>
+        {action.status === 'pending' && (
+          <>
+            <button
+              onClick={() => onResolve(action, 'confirm')}
+              className="px-2 py-1 rounded-lg bg-rose-500/10 text-rose-500 font-medium hover:bg-rose-500/20 transition-colors"
+            >
+              Confirm
+            </button>
+            <button
+              onClick={() => onResolve(action, 'cancel')}
+              className="px-2 py-1 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+function AIAssistant({
+  userName,
+  onDataChanged
+}: {
+  userName: string,
+  onDataChanged: (areas: AssistantAction['area'][]) => void
+}) {
+  const [conversations, setConversations] = useState<AssistantConversation[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const [messages, setMessages] = useState<AssistantMessage[]>([]);
   const [input, setInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [status, setStatus] = useState<AssistantStatus | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const openConversation = async (id: number) => {
+    try {
+      const res = await fetch(`/api/ai/conversations/${id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setActiveId(id);
+      setMessages(data.messages);
+    } catch (error) {
+      console.error("Open conversation error:", error);
+    }
+  };
+
+  useEffect(() => {
+    const fetchConversations = async () => {
+      try {
+        const data = await fetchJson<AssistantConversation[]>('/api/ai/conversations');
+        if (!data) return;
+        setConversations(data);
+        // Pick up where the last conversation left off
+        if (data.length > 0) openConversation(data[0].id);
+      } catch (error) {
+        console.error("Fetch conversations error:", error);
+      }
+    };
+    fetchConversations();
+    fetch('/api/ai/status')
+      .then(res => res.json())
+      .then(setStatus)
+      .catch(error => console.error("AI status error:", error));
+  }, []);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleNewConversation = () => {
+    setActiveId(null);
+    setMessages([]);
+  };
+
+  const handleDeleteConversation = async (id: number) => {
+    if (!confirm('Delete this conversation?')) return;
+    try {
+      await fetch(`/api/ai/conversations/${id}`, { method: 'DELETE' });
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === activeId) handleNewConversation();
+    } catch (error) {
+      console.error("Delete conversation error:", error);
+    }
+  };
+
+  // Applies a change to the reply currently being streamed (always the last message)
+  const updateReply = (change: (reply: AssistantMessage) => AssistantMessage) => {
+    setMessages(prev => [...prev.slice(0, -1), change(prev[prev.length - 1])]);
+  };
 
   const handleSend = async () => {
-    if (!input.trim()) return;
-    
+    if (!input.trim() || isStreaming || status?.available === false) return;
+
     const userMsg = input;
     setInput('');
-    setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
-    setIsTyping(true);
+    setMessages(prev => [...prev, { role: 'user', text: userMsg }, { role: 'ai', text: '', actions: [] }]);
+    setIsStreaming(true);
 
     try {
-      const res = await fetch('/api/ai/chat', {
+      const res = await fetch('/api/ai/chat/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: userMsg, context: {} })
+        body: JSON.stringify({ message: userMsg, conversation_id: activeId })
+      });
+      if (!res.ok) throw new Error((await res.json()).error);
+
+      await readEventStream(res, (event, data) => {
+        if (event === 'conversation') {
+          setActiveId(data.id);
+          setConversations(prev => [{ ...data, updated_at: new Date().toISOString() }, ...prev.filter(c => c.id !== data.id)]);
+        } else if (event === 'context') {
+          updateReply(reply => ({ ...reply, shared: data }));
+        } else if (event === 'delta') {
+          updateReply(reply => ({ ...reply, text: reply.text + data.text }));
+        } else if (event === 'action') {
+          updateReply(reply => ({ ...reply, actions: [...(reply.actions || []), data] }));
+          if (data.status === 'done') onDataChanged([data.area]);
+        } else if (event === 'done') {
+          updateReply(() => data.message);
+        } else if (event === 'error') {
+          updateReply(reply => ({ ...reply, text: reply.text || "Sorry, I'm having trouble connecting right now." }));
+        }
       });
-      const data = await res.json();
-      setMessages(prev => [...prev, { role: 'ai', text: data.text }]);
     } catch (error) {
-      setMessages(prev => [...prev, { role: 'ai', text: "Sorry, I'm having trouble connecting right now." }]);
+      console.error("AI chat error:", error);
+      updateReply(reply => ({ ...reply, text: "Sorry, I'm having trouble connecting right now." }));
     } finally {
-      setIsTyping(false);
+      setIsStreaming(false);
+    }
+  };
+
+  const handleResolveAction = async (action: AssistantAction, decision: 'confirm' | 'cancel') => {
+    try {
+      const res = await fetch(`/api/ai/actions/${action.id}/${decision}`, { method: 'POST' });
+      const data = await res.json();
+      const resolved: AssistantAction = res.ok ? data : { ...action, status: 'failed', error: data.error };
+      setMessages(prev => prev.map(msg => ({
+        ...msg,
+        actions: msg.actions?.map(a => a.id === action.id ? resolved : a)
+      })));
+      if (resolved.status === 'done') onDataChanged([resolved.area]);
+    } catch (error) {
+      console.error("Resolve action error:", error);
     }
   };
 
+  const lastMessage = messages[messages.length - 1];
+  const isWaiting = isStreaming && lastMessage?.role === 'ai' && !lastMessage.text && !lastMessage.actions?.length;
+
   return (
-    <div className="max-w-4xl mx-auto h-[75vh] flex flex-col glass-card rounded-2xl overflow-hidden">
-      <div className="p-6 border-b border-zinc-800 flex items-center gap-3">
-        <div className="w-10 h-10 rounded-xl bg-brand-primary/10 flex items-center justify-center text-brand-primary">
-          <MessageSquare size={20} />
+    <div className="max-w-6xl mx-auto h-[75vh] flex glass-card rounded-2xl overflow-hidden">
+      <aside className="w-60 shrink-0 border-r border-zinc-800 flex flex-col bg-zinc-900/30">
+        <div className="p-4 border-b border-zinc-800">
+          <button
+            onClick={handleNewConversation}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-brand-primary text-white rounded-xl text-sm font-medium hover:bg-brand-primary/90 transition-colors"
+          >
+            <Plus size={16} />
+            <span>New chat</span>
+          </button>
         </div>
-        <div>
-          <h2 className="font-bold font-display">AI Productivity Assistant</h2>
-          <p className="text-xs text-zinc-500">Powered by Gemini AI</p>
+        <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+          {conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              onClick={() => openConversation(conversation.id)}
+              className={cn(
+                "group flex items-center gap-2 px-3 py-2 rounded-xl cursor-pointer transition-colors",
+                conversation.id === activeId ? "bg-brand-primary/10 text-brand-primary" : "text-zinc-400 hover:bg-zinc-800/50 hover:text-zinc-200"
+              )}
+            >
+              <MessageSquare size={14} className="shrink-0" />
+              <span className="flex-1 text-sm truncate">{conversation.title}</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDeleteConversation(conversation.id); }}
+                className="opacity-0 group-hover:opacity-100 p-1 text-zinc-500 hover:text-rose-500 transition-all"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+          {conversations.length === 0 && <p className="text-xs text-zinc-600 text-center py-6">No conversations yet</p>}
         </div>
-      </div>
+      </aside>
 
-      <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
-        {messages.map((msg, idx) => (
-          <div key={idx} className={cn("flex", msg.role === 'user' ? "justify-end" : "justify-start")}>
-            <div className={cn(
-              "max-w-[80%] p-4 rounded-2xl text-sm",
-              msg.role === 'user' 
-                ? "bg-brand-primary text-white" 
-                : "bg-zinc-800/50 text-zinc-100 border border-zinc-800"
-            )}>
-              {msg.text}
-            </div>
+      <div className="flex-1 flex flex-col min-w-0">
+        <div className="p-6 border-b border-zinc-800 flex items-center gap-3">
+          <div className="w-10 h-10 rounded-xl bg-brand-primary/10 flex items-center justify-center text-brand-primary">
+            <MessageSquare size={20} />
           </div>
-        ))}
-        {isTyping && (
-          <div className="flex justify-start">
-            <div className="bg-zinc-800/50 p-4 rounded-2xl flex gap-1">
-              <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce" />
-              <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce [animation-delay:0.2s]" />
-              <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce [animation-delay:0.4s]" />
-            </div>
+          <div>
+            <h2 className="font-bold font-display">AI Productivity Assistant</h2>
+            <p className="text-xs text-zinc-500">
+              {status?.provider === 'stub' ? 'Offline stub' : `Powered by ${status?.model || 'Gemini AI'}`} · answers from your tasks, lectures, focus sessions and projects
+            </p>
+          </div>
+        </div>
+
+        {status && !status.available && (
+          <div className="px-6 py-3 border-b border-zinc-800 bg-amber-500/10 text-amber-400 text-sm flex items-center gap-2">
+            <AlertCircle size={16} className="shrink-0" />
+            <span>The assistant is unavailable: {status.reason}. Past conversations can still be read.</span>
           </div>
         )}
-      </div>
 
-      <div className="p-6 border-t border-zinc-800 bg-zinc-900/30">
-        <div className="flex gap-3">
-          <input 
-            type="text" 
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-            placeholder="Ask anything about your productivity..."
-            className="flex-1 bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
-          />
-          <button 
-            onClick={handleSend}
-            className="bg-brand-primary text-white px-6 py-3 rounded-xl font-medium hover:bg-brand-primary/90 transition-colors"
-          >
-            Send
-          </button>
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {messages.length === 0 && (
+            <div className="flex justify-start">
+              <div className="max-w-[80%] p-4 rounded-2xl text-sm bg-zinc-800/50 text-zinc-100 border border-zinc-800">
+                Hello {userName.split(' ')[0]}! I'm your Productivity OS Assistant. How can I help you optimize your schedule today?
+              </div>
+            </div>
+          )}
+          {messages.map((msg, idx) => (
+            <div key={msg.id ?? `pending-${idx}`} className={cn("flex", msg.role === 'user' ? "justify-end" : "justify-start")}>
+              <div className="max-w-[80%]">
+                {(msg.text || msg.role === 'user') && (
+                  <div className={cn(
+                    "p-4 rounded-2xl text-sm",
+                    msg.role === 'user' 
+                      ? "bg-brand-primary text-white whitespace-pre-wrap" 
+                      : "bg-zinc-800/50 text-zinc-100 border border-zinc-800"
+                  )}>
+                    {msg.role === 'user' ? msg.text : <div className="markdown"><ReactMarkdown>{msg.text}</ReactMarkdown></div>}
+                  </div>
+                )}
+                {msg.actions && msg.actions.length > 0 && <AssistantActions actions={msg.actions} onResolve={handleResolveAction} />}
+                {msg.shared && <SharedContext shared={msg.shared} />}
+              </div>
+            </div>
+          ))}
+          {isWaiting && (
+            <div className="flex justify-start">
+              <div className="bg-zinc-800/50 p-4 rounded-2xl flex gap-1">
+                <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce" />
+                <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce [animation-delay:0.2s]" />
+                <div className="w-1.5 h-1.5 bg-zinc-500 rounded-full animate-bounce [animation-delay:0.4s]" />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-zinc-800 bg-zinc-900/30">
+          <div className="flex gap-3">
+            <input 
+              type="text" 
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              placeholder="Ask anything about your productivity..."
+              className="flex-1 bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+            />
+            <button 
+              onClick={handleSend}
+              disabled={isStreaming || status?.available === false}
+              className="bg-brand-primary text-white px-6 py-3 rounded-xl font-medium hover:bg-brand-primary/90 transition-colors disabled:opacity-50"
+            >
+              Send
+            </button>
+          </div>
         </div>
       </div>
     </div>
   );
 }
+
+const BACKUP_TABLES = [
+  'tasks', 'subtasks', 'lectures', 'terms', 'timetable_slots', 'syllabus_units', 'syllabus_topics',
+  'lecture_topics', 'internship_logs', 'projects', 'project_milestones', 'focus_sessions', 'plan_blocks', 'settings'
+];
+
+function DataSettings({
+  user,
+  onUserChange,
+  onLogout,
+  onImported
+}: {
+  user: AuthUser,
+  onUserChange: (user: AuthUser) => void,
+  onLogout: () => void,
+  onImported: () => void
+}) {
+  const [name, setName] = useState(user.name);
+  const [role, setRole] = useState(user.role || '');
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const calendarUrl = `${window.location.origin}/api/calendar.ics?token=${user.calendar_token}`;
+
+  const handleSaveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const res = await fetch('/api/auth/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, role })
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      onUserChange(data);
+      setProfileMessage('Profile saved.');
+    } catch (error: any) {
+      console.error("Save profile error:", error);
+      setProfileMessage(error.message);
+    }
+  };
+
+  const handleResetCalendarToken = async () => {
+    if (!confirm('Calendars subscribed with the current link will stop updating. Continue?')) return;
+    try {
+      const res = await fetch('/api/auth/calendar-token', { method: 'POST' });
+      onUserChange(await res.json());
+    } catch (error) {
+      console.error("Calendar token error:", error);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (mode === 'replace' && !confirm('Replace ALL of your current data with this backup? This cannot be undone.')) return;
+
+    setIsImporting(true);
+    setError(null);
+    setResult(null);
+    try {
+      let bundle;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      const res = await fetch(`/api/import?mode=${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(bundle)
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      const counts = Object.values(data.tables as Record<string, { imported: number, skipped: number }>);
+      const imported = counts.reduce((sum, table) => sum + table.imported, 0);
+      const skipped = counts.reduce((sum, table) => sum + table.skipped, 0);
+      setResult(`Restored ${imported} rows${skipped > 0 ? `, skipped ${skipped} already present or incomplete` : ''}.`);
+      onImported();
+    } catch (error: any) {
+      console.error("Import error:", error);
+      setError(error.message);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold font-display">Settings</h1>
+        <p className="text-zinc-500 text-sm">Manage your account, back up your data or move it to another machine.</p>
+      </div>
+
+      <Card title="Profile" subtitle={`Signed in as ${user.email}`} icon={User}>
+        <form onSubmit={handleSaveProfile} className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Name</label>
+            <input
+              required
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Role</label>
+            <input
+              type="text"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              placeholder="e.g. AI & DS Student"
+              className="w-full bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-brand-primary/20 transition-all"
+            />
+          </div>
+          <div className="col-span-2 flex items-center gap-3">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-brand-primary text-white rounded-xl text-sm font-medium hover:bg-brand-primary/90 transition-colors"
+            >
+              Save profile
+            </button>
+            <button
+              type="button"
+              onClick={onLogout}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors"
+            >
+              <LogOut size={16} />
+              <span>Log out</span>
+            </button>
+            {profileMessage && <p className="text-xs text-zinc-500">{profileMessage}</p>}
+          </div>
+        </form>
+        <div className="mt-6">
+          <label className="block text-xs font-bold text-zinc-500 uppercase tracking-wider mb-1.5">Calendar subscription</label>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={calendarUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-2 text-xs text-zinc-400 focus:outline-none"
+            />
+            <button
+              onClick={() => navigator.clipboard.writeText(calendarUrl)}
+              title="Copy link"
+              className="p-2 bg-zinc-800 text-zinc-400 hover:text-white rounded-xl transition-colors"
+            >
+              <Copy size={16} />
+            </button>
+            <button
+              onClick={handleResetCalendarToken}
+              className="px-3 py-2 bg-zinc-800 text-zinc-400 hover:text-white rounded-xl text-xs font-medium transition-colors"
+            >
+              Reset link
+            </button>
+          </div>
+          <p className="text-xs text-zinc-500 mt-1.5">Anyone with this link can read your tasks and lectures.</p>
+        </div>
+      </Card>
+
+      <Card title="Export" subtitle="A versioned JSON backup of your data, or one table as CSV" icon={Download}>
+        <a
+          href="/api/export"
+          className="inline-flex items-center gap-2 px-4 py-2 bg-brand-primary text-white rounded-xl text-sm font-medium hover:bg-brand-primary/90 transition-colors"
+        >
+          <Download size={16} />
+          <span>Download backup (.json)</span>
+        </a>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {BACKUP_TABLES.map(table => (
+            <a
+              key={table}
+              href={`/api/export/${table}.csv`}
+              className="text-xs px-2.5 py-1 rounded-lg bg-zinc-800 text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+            >
+              {table}.csv
+            </a>
+          ))}
+        </div>
+      </Card>
+
+      <Card title="Import" subtitle="Restore a backup made with the export above" icon={Database}>
+        <div className="space-y-3">
+          {([
+            ['merge', 'Merge', 'Add the backup alongside your current data. Records get new IDs; links between them are kept.'],
+            ['replace', 'Replace', 'Delete your current tasks, lectures, projects and logs, then restore the backup in their place.']
+          ] as const).map(([value, label, description]) => (
+            <label
+              key={value}
+              className={cn(
+                "flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors",
+                mode === value ? "border-brand-primary/40 bg-brand-primary/5" : "border-zinc-800 hover:border-zinc-700"
+              )}
+            >
+              <input type="radio" name="import-mode" checked={mode === value} onChange={() => setMode(value)} className="mt-1 accent-brand-primary" />
+              <div>
+                <p className="text-sm font-medium">{label}</p>
+                <p className="text-xs text-zinc-500">{description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="mt-4 inline-flex items-center gap-2 px-4 py-2 bg-zinc-800 text-white rounded-xl text-sm font-medium hover:bg-zinc-700 transition-colors disabled:opacity-50"
+        >
+          {isImporting ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+          <span>Choose backup file</span>
+        </button>
+        {result && <p className="text-xs text-emerald-500 mt-3">{result}</p>}
+        {error && <p className="text-xs text-rose-500 mt-3">{error}</p>}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+let unauthorizedHandler: () => void = () => {};
+
+// Registers what to do when the server reports the session has ended (signed out elsewhere, or expired)
+export function onUnauthorized(handler: () => void) {
+  unauthorizedHandler = handler;
+}
+
+// GETs a JSON resource from the API. Resolves to null instead of an error body when the request
+// fails, so callers never store one in place of the data they asked for.
+export async function fetchJson<T>(url: string): Promise<T | null> {
+  const res = await fetch(url);
+  if (res.status === 401) {
+    unauthorizedHandler();
+    return null;
+  }
+  if (!res.ok) return null;
+  return res.json();
+}
@@ -0,0 +1,19 @@
+// Due-date rules shared by the task board badges and the server's reminder scheduler
+
+export const isOverdue = (date: string | null | undefined) => {
+  if (!date) return false;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const due = new Date(date);
+  return due < today;
+};
+
+export const isDueSoon = (date: string | null | undefined) => {
+  if (!date) return false;
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const due = new Date(date);
+  const diff = due.getTime() - today.getTime();
+  const days = diff / (1000 * 60 * 60 * 24);
+  return days >= 0 && days <= 1;
+};
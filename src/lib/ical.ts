@@ -0,0 +1,191 @@
+import { addDays, addMonths, format, isValid, parse, parseISO } from 'date-fns';
+import { parseRRule } from './recurrence';
+
+// Minimal iCalendar (RFC 5545) support: writing VEVENT/VTODO feeds and reading VEVENTs back.
+// Times are written as floating local times, matching how lectures store a date plus HH:mm.
+
+export interface ICalComponent {
+  type: 'VEVENT' | 'VTODO';
+  props: [string, string][];
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+// Recurring events without an end are expanded at most this far past their first occurrence
+const MAX_EXPANSION_DAYS = 366;
+
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export const icalDate = (date: string) => date.slice(0, 10).replace(/-/g, '');
+export const icalDateTime = (date: string, time: string) => `${icalDate(date)}T${time.replace(':', '')}00`;
+
+export function buildCalendar(name: string, components: ICalComponent[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Productivity Dashboard//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const component of components) {
+    lines.push(`BEGIN:${component.type}`, `DTSTAMP:${stamp}`);
+    for (const [key, value] of component.props) lines.push(`${key}:${value}`);
+    lines.push(`END:${component.type}`);
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ParsedValue {
+  date: string;
+  time: string | null;
+}
+
+// Accepts DATE (20261020), floating/TZID local (20261020T090000) and UTC (20261020T033000Z) values.
+// Zoned times are read as wall-clock times; UTC ones are converted to the server's local time.
+function parseDateValue(value: string): ParsedValue | null {
+  const match = /^(\d{8})(?:T(\d{6})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  if (!match[2]) {
+    const date = parse(match[1], 'yyyyMMdd', new Date());
+    return isValid(date) ? { date: format(date, 'yyyy-MM-dd'), time: null } : null;
+  }
+  const iso = `${match[1].slice(0, 4)}-${match[1].slice(4, 6)}-${match[1].slice(6)}T${match[2].slice(0, 2)}:${match[2].slice(2, 4)}:${match[2].slice(4)}`;
+  const date = match[3] ? new Date(`${iso}Z`) : parseISO(iso);
+  if (!isValid(date)) return null;
+  return { date: format(date, 'yyyy-MM-dd'), time: format(date, 'HH:mm') };
+}
+
+function unfold(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n').filter(Boolean);
+}
+
+// Start dates of every occurrence of a recurring event, honouring COUNT, UNTIL and EXDATE
+function expandOccurrences(start: string, rrule: string, exdates: Set<string>): string[] {
+  const rule = parseRRule(rrule);
+  if (!rule) return [start];
+  const count = Number(/COUNT=(\d+)/i.exec(rrule)?.[1]) || Infinity;
+  const first = parseISO(start);
+  const last = rule.until ? parseISO(rule.until) : addDays(first, MAX_EXPANSION_DAYS);
+  const weekdays = rule.freq === 'weekly' && rule.byDay.length > 0 ? rule.byDay : [first.getDay()];
+
+  const dates: string[] = [];
+  for (let step = 0, produced = 0; produced < count; step += rule.interval) {
+    let candidates: Date[];
+    if (rule.freq === 'daily') {
+      candidates = [addDays(first, step)];
+    } else if (rule.freq === 'monthly') {
+      candidates = [addMonths(first, step)];
+    } else {
+      const weekStart = addDays(first, step * 7 - first.getDay());
+      candidates = weekdays.map(day => addDays(weekStart, day)).filter(day => day >= first);
+    }
+    if (candidates.length > 0 && candidates.every(day => day > last)) break;
+
+    for (const day of candidates) {
+      if (day > last || produced >= count) continue;
+      produced++;
+      const date = format(day, 'yyyy-MM-dd');
+      if (!exdates.has(date)) dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * Reads every VEVENT in a calendar file. Recurring events are expanded into one event per
+ * occurrence with a `${UID}/${date}` uid, so re-importing the same file updates rather than
+ * duplicates; RECURRENCE-ID overrides replace the matching occurrence.
+ */
+export function parseCalendar(text: string): ICalEvent[] {
+  const events = new Map<string, ICalEvent>();
+  let current: Record<string, { params: string, value: string }[]> | null = null;
+
+  for (const line of unfold(text)) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      current = {};
+      continue;
+    }
+    if (/^END:VEVENT$/i.test(line)) {
+      if (current) addEvent(events, current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+    const match = /^([A-Za-z-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (!match) continue;
+    (current[match[1].toUpperCase()] ||= []).push({ params: match[2], value: match[3] });
+  }
+  return [...events.values()];
+}
+
+function addEvent(events: Map<string, ICalEvent>, props: Record<string, { params: string, value: string }[]>) {
+  const first = (key: string) => props[key]?.[0]?.value;
+  const start = first('DTSTART') && parseDateValue(first('DTSTART')!);
+  const summary = first('SUMMARY');
+  if (!start || !summary) return;
+  if (/^CANCELLED$/i.test(first('STATUS') || '')) return;
+
+  const end = first('DTEND') ? parseDateValue(first('DTEND')!) : null;
+  const uid = first('UID') || `${icalDate(start.date)}-${summary}`;
+  const base = {
+    summary: unescapeText(summary),
+    description: first('DESCRIPTION') ? unescapeText(first('DESCRIPTION')!) : null,
+    location: first('LOCATION') ? unescapeText(first('LOCATION')!) : null,
+    startTime: start.time,
+    endTime: end?.time && end.date === start.date ? end.time : null,
+  };
+
+  const recurrenceId = first('RECURRENCE-ID') && parseDateValue(first('RECURRENCE-ID')!);
+  if (recurrenceId) {
+    events.set(`${uid}/${recurrenceId.date}`, { ...base, uid: `${uid}/${recurrenceId.date}`, date: start.date });
+    return;
+  }
+
+  const rrule = first('RRULE');
+  if (!rrule) {
+    events.set(uid, { ...base, uid, date: start.date });
+    return;
+  }
+
+  const exdates = new Set(
+    (props.EXDATE || []).flatMap(({ value }) => value.split(',')).map(value => parseDateValue(value)?.date).filter(Boolean) as string[]
+  );
+  for (const date of expandOccurrences(start.date, rrule, exdates)) {
+    const key = `${uid}/${date}`;
+    // Keep any override that was already read for this occurrence
+    if (!events.has(key)) events.set(key, { ...base, uid: key, date });
+  }
+}
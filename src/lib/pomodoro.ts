@@ -0,0 +1,92 @@
+// Pomodoro cycle rules and wall-clock timing shared by Focus Mode and the server.
+// Lengths are stored per user in settings, in minutes.
+
+export type PomodoroPhase = 'work' | 'short_break' | 'long_break';
+
+export interface PomodoroConfig {
+  work: number;
+  shortBreak: number;
+  longBreak: number;
+  // A long break replaces the short one after every this many work sessions
+  longBreakEvery: number;
+}
+
+export const DEFAULT_POMODORO: PomodoroConfig = { work: 25, shortBreak: 5, longBreak: 15, longBreakEvery: 4 };
+
+export const POMODORO_SETTINGS: Record<keyof PomodoroConfig, string> = {
+  work: 'pomodoro_work_minutes',
+  shortBreak: 'pomodoro_short_break_minutes',
+  longBreak: 'pomodoro_long_break_minutes',
+  longBreakEvery: 'pomodoro_long_break_every',
+};
+
+const LIMITS: Record<keyof PomodoroConfig, [number, number]> = {
+  work: [1, 180],
+  shortBreak: [1, 60],
+  longBreak: [1, 120],
+  longBreakEvery: [1, 12],
+};
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  work: 'Work Session',
+  short_break: 'Short Break',
+  long_break: 'Long Break',
+};
+
+// Reads the config from a settings map, falling back to the defaults for missing or invalid values
+export function pomodoroConfig(settings: Record<string, string>): PomodoroConfig {
+  const config = { ...DEFAULT_POMODORO };
+  for (const key of Object.keys(POMODORO_SETTINGS) as (keyof PomodoroConfig)[]) {
+    const value = Number(settings[POMODORO_SETTINGS[key]]);
+    const [min, max] = LIMITS[key];
+    if (Number.isInteger(value) && value >= min && value <= max) config[key] = value;
+  }
+  return config;
+}
+
+const CONFIG_LABELS: Record<keyof PomodoroConfig, string> = {
+  work: 'Work length',
+  shortBreak: 'Short break length',
+  longBreak: 'Long break length',
+  longBreakEvery: 'Long break interval',
+};
+
+export function validatePomodoroConfig(config: PomodoroConfig): string | null {
+  for (const key of Object.keys(LIMITS) as (keyof PomodoroConfig)[]) {
+    const [min, max] = LIMITS[key];
+    if (!Number.isInteger(config[key]) || config[key] < min || config[key] > max) {
+      return `${CONFIG_LABELS[key]} must be between ${min} and ${max}`;
+    }
+  }
+  return null;
+}
+
+export const phaseMinutes = (config: PomodoroConfig, phase: PomodoroPhase) =>
+  phase === 'work' ? config.work : phase === 'short_break' ? config.shortBreak : config.longBreak;
+
+// focus_sessions only distinguishes work from breaks
+export const sessionType = (phase: PomodoroPhase) => (phase === 'work' ? 'work' : 'break');
+
+// The phase after `phase`, given how many work sessions have been completed including this one
+export function nextPhase(config: PomodoroConfig, phase: PomodoroPhase, completedWork: number): PomodoroPhase {
+  if (phase !== 'work') return 'work';
+  return completedWork > 0 && completedWork % config.longBreakEvery === 0 ? 'long_break' : 'short_break';
+}
+
+/**
+ * A session in progress, measured against the clock rather than by counting ticks, so it stays
+ * accurate in background tabs and across reloads. Times are milliseconds since the epoch:
+ * `paused_at` is set while paused and `paused_ms` totals the pauses that have ended.
+ */
+export interface SessionTiming {
+  duration_ms: number;
+  started_at: number;
+  paused_at: number | null;
+  paused_ms: number;
+}
+
+export const sessionElapsedMs = (session: SessionTiming, now: number) =>
+  Math.min(Math.max((session.paused_at ?? now) - session.started_at - session.paused_ms, 0), session.duration_ms);
+
+export const sessionRemainingMs = (session: SessionTiming, now: number) =>
+  session.duration_ms - sessionElapsedMs(session, now);
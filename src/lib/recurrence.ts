@@ -0,0 +1,94 @@
+import { addDays, addMonths, differenceInCalendarWeeks, format, isAfter, parseISO, startOfToday } from 'date-fns';
+
+// Repeat rules are stored on tasks as a subset of iCalendar RRULE, e.g.
+// "FREQ=WEEKLY;BYDAY=MO,WE", "FREQ=DAILY;INTERVAL=3" or "FREQ=MONTHLY;UNTIL=20261231"
+
+export type RecurrenceFreq = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  byDay: number[];
+  until: string | null;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const parts = Object.fromEntries(
+    value.replace(/^RRULE:/i, '').split(';').map(part => part.split('=') as [string, string])
+  );
+  const freq = parts.FREQ?.toLowerCase();
+  if (freq !== 'daily' && freq !== 'weekly' && freq !== 'monthly') return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const byDay = parts.BYDAY ? parts.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.toUpperCase())) : [];
+  if (byDay.some(day => day === -1)) return null;
+
+  let until: string | null = null;
+  if (parts.UNTIL) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(parts.UNTIL);
+    if (!match) return null;
+    until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  return { freq, interval, byDay: [...new Set(byDay)].sort(), until };
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'weekly' && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAYS[day]).join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let text: string;
+  if (rule.freq === 'daily') {
+    text = rule.interval === 1 ? 'Daily' : `Every ${rule.interval} days`;
+  } else if (rule.freq === 'weekly') {
+    const days = rule.byDay.length > 0 ? ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}` : '';
+    text = (rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`) + days;
+  } else {
+    text = rule.interval === 1 ? 'Monthly' : `Every ${rule.interval} months`;
+  }
+  if (rule.until) text += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  return text;
+}
+
+// First occurrence strictly after `after`, ignoring the end date
+function stepAfter(rule: RecurrenceRule, after: Date, anchor: Date): Date {
+  if (rule.freq === 'daily') return addDays(after, rule.interval);
+  if (rule.freq === 'monthly') {
+    // Count from the anchor so month-end dates don't drift (Jan 31 -> Feb 28 -> Mar 31)
+    for (let step = rule.interval; ; step += rule.interval) {
+      const candidate = addMonths(anchor, step);
+      if (candidate > after) return candidate;
+    }
+  }
+
+  const days = rule.byDay.length > 0 ? rule.byDay : [anchor.getDay()];
+  for (let candidate = addDays(after, 1); ; candidate = addDays(candidate, 1)) {
+    const weeks = differenceInCalendarWeeks(candidate, anchor);
+    if (weeks % rule.interval === 0 && days.includes(candidate.getDay())) return candidate;
+  }
+}
+
+/**
+ * Due date of the occurrence that follows one due on `from`. Occurrences that
+ * have already passed are skipped, so completing a late task schedules the next
+ * upcoming one. Returns null once the rule's end date is reached.
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: string): string | null {
+  const anchor = parseISO(from);
+  const today = startOfToday();
+  let next = stepAfter(rule, anchor, anchor);
+  while (next < today) next = stepAfter(rule, next, anchor);
+  if (rule.until && isAfter(next, parseISO(rule.until))) return null;
+  return format(next, 'yyyy-MM-dd');
+}
@@ -0,0 +1,55 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn, type ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Runs the real server against a throwaway database in a temporary directory, with the stub AI
+// provider so tool calls can be scripted as `call <tool> {args}`.
+const root = path.resolve(import.meta.dirname, "..");
+const dir = mkdtempSync(path.join(tmpdir(), "assistant-tools-"));
+const port = 3100 + Math.floor(Math.random() * 800);
+const base = `http://localhost:${port}`;
+let server: ChildProcess;
+let cookie = "";
+
+const api = async (route: string, body?: unknown) => {
+  const res = await fetch(`${base}${route}`, {
+    method: body ? "POST" : "GET",
+    headers: { "Content-Type": "application/json", cookie },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return { res, data: await res.json() };
+};
+
+before(async () => {
+  server = spawn(path.join(root, "node_modules/.bin/tsx"), [path.join(root, "server.ts")], {
+    cwd: dir,
+    env: { ...process.env, AI_PROVIDER: "stub", PORT: String(port) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.stdout!.on("data", chunk => { if (String(chunk).includes("Server running")) resolve(); });
+    server.on("exit", code => reject(new Error(`Server exited with ${code}`)));
+  });
+
+  const { res } = await api("/api/auth/signup", { name: "Test", email: "test@example.com", password: "password123" });
+  cookie = res.headers.get("set-cookie")!.split(";")[0];
+});
+
+after(() => {
+  server.kill();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("create_task without a priority saves the defaults", async () => {
+  const { res } = await api("/api/ai/chat", { message: 'call create_task {"title":"From AI"}' });
+  assert.equal(res.status, 200);
+
+  const { data: tasks } = await api("/api/tasks");
+  const task = tasks.find((t: any) => t.title === "From AI");
+  assert.ok(task, "the tool created the task");
+  assert.equal(task.priority, "medium");
+  assert.equal(task.status, "todo");
+});